@@ -8,6 +8,14 @@ const LOG_PREFIX = "[entrypoint]";
 const ROOT_DIR = process.cwd();
 const SERVICE_MODES = new Set(["bot", "worker"]);
 const SENSITIVE_ENV = ["DISCORD_TOKEN", "REDIS_PASSWORD", "PG_PASSWORD"];
+// Maintenance commands run a compiled entry directly, skipping install/build:
+//   node run.js <command> [args...]
+const CLI_COMMANDS = {
+  dlq: { serviceDir: "worker", entryName: "dlq" },
+  queue: { serviceDir: "worker", entryName: "queue" },
+  migrate: { serviceDir: "worker", entryName: "migrate" },
+  retention: { serviceDir: "worker", entryName: "retention" },
+};
 
 const log = (message) => {
   console.log(`${LOG_PREFIX} ${message}`);
@@ -191,10 +199,10 @@ const validateBuildOutputs = () => {
   }
 };
 
-const resolveServiceEntry = (serviceDir) => {
+const resolveServiceEntry = (serviceDir, entryName = "index") => {
   const candidates = [
-    path.join(ROOT_DIR, serviceDir, "dist", "src", "index.js"),
-    path.join(ROOT_DIR, serviceDir, "dist", "index.js"),
+    path.join(ROOT_DIR, serviceDir, "dist", "src", `${entryName}.js`),
+    path.join(ROOT_DIR, serviceDir, "dist", `${entryName}.js`),
   ];
   for (const entry of candidates) {
     if (fs.existsSync(entry)) {
@@ -215,6 +223,12 @@ const runService = async (serviceMode) => {
   await spawnCommand("node", [entry], { cwd: ROOT_DIR });
 };
 
+const runCliCommand = async (commandName, args) => {
+  const command = CLI_COMMANDS[commandName];
+  const entry = resolveServiceEntry(command.serviceDir, command.entryName);
+  await spawnCommand("node", [entry, ...args], { cwd: ROOT_DIR });
+};
+
 const validateServiceMode = () => {
   const mode = process.env.SERVICE_MODE;
   if (!SERVICE_MODES.has(mode)) {
@@ -226,6 +240,17 @@ const validateServiceMode = () => {
 
 const main = async () => {
   loadEnv();
+  const [commandName, ...commandArgs] = process.argv.slice(2);
+  if (commandName) {
+    if (!Object.prototype.hasOwnProperty.call(CLI_COMMANDS, commandName)) {
+      logError(
+        `Unknown command "${commandName}". Available: ${Object.keys(CLI_COMMANDS).join(", ")}.`,
+      );
+      process.exit(1);
+    }
+    await runCliCommand(commandName, commandArgs);
+    return;
+  }
   const serviceMode = validateServiceMode();
   await runHealthcheck();
   await installDependencies();
@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS job_results (
+  job_id TEXT PRIMARY KEY,
+  worker_name TEXT NOT NULL,
+  job_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE job_results ADD COLUMN IF NOT EXISTS result JSONB;
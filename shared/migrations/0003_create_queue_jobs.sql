@@ -0,0 +1,24 @@
+-- Rows are `ready` (due once `run_at` has passed), `leased`, `dead` or `quarantined`.
+CREATE TABLE IF NOT EXISTS queue_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  queue_name TEXT NOT NULL,
+  job_id TEXT NOT NULL,
+  job_type TEXT NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'normal',
+  state TEXT NOT NULL DEFAULT 'ready',
+  job JSONB NOT NULL,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  leased_by TEXT,
+  lease_token TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS queue_jobs_ready_idx
+  ON queue_jobs (queue_name, priority, run_at, id)
+  WHERE state = 'ready';
+
+CREATE INDEX IF NOT EXISTS queue_jobs_leased_idx
+  ON queue_jobs (queue_name, lease_expires_at)
+  WHERE state = 'leased';
@@ -0,0 +1,12 @@
+-- One row per job, overwritten by every run so a redelivered job updates its
+-- row instead of violating the primary key. `result` holds the handler output.
+ALTER TABLE job_results RENAME COLUMN worker_name TO worker_id;
+
+ALTER TABLE job_results
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'completed',
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN duration_ms INTEGER,
+  ADD COLUMN error TEXT,
+  ADD COLUMN started_at TIMESTAMPTZ;
+
+CREATE INDEX job_results_type_processed_idx ON job_results (job_type, processed_at);
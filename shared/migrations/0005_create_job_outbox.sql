@@ -0,0 +1,17 @@
+-- Jobs written in the same transaction as business data and published to
+-- their Redis queue by the worker's outbox relay. `run_at` is absolute, so
+-- relay lag does not add to a requested delay.
+CREATE TABLE job_outbox (
+  id BIGSERIAL PRIMARY KEY,
+  queue_name TEXT NOT NULL,
+  job_id TEXT NOT NULL,
+  job JSONB NOT NULL,
+  priority TEXT,
+  run_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX job_outbox_pending_idx ON job_outbox (id) WHERE sent_at IS NULL;
@@ -0,0 +1,15 @@
+-- `job_created_at` is the job's own `createdAt`, fixed across retries and
+-- redeliveries. It joins the primary key so the table can be converted to
+-- monthly partitions on it (`node run.js retention partition`) while the
+-- worker's upsert keeps the same conflict target in either layout.
+ALTER TABLE job_results ADD COLUMN job_created_at TIMESTAMPTZ;
+
+UPDATE job_results
+SET job_created_at = COALESCE(started_at, processed_at)
+WHERE job_created_at IS NULL;
+
+ALTER TABLE job_results ALTER COLUMN job_created_at SET NOT NULL;
+
+ALTER TABLE job_results
+  DROP CONSTRAINT job_results_pkey,
+  ADD PRIMARY KEY (job_id, job_created_at);
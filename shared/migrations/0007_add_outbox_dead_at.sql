@@ -0,0 +1,6 @@
+-- Rows that keep failing to publish are set aside with `dead_at` after the
+-- relay's attempt limit, so they no longer hold up the rows behind them.
+ALTER TABLE job_outbox ADD COLUMN dead_at TIMESTAMPTZ;
+
+DROP INDEX IF EXISTS job_outbox_pending_idx;
+CREATE INDEX job_outbox_pending_idx ON job_outbox (id) WHERE sent_at IS NULL AND dead_at IS NULL;
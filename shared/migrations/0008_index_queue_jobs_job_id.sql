@@ -0,0 +1,3 @@
+-- Looking a job up by id (cancellation, and republishes that must not queue a
+-- job twice) would otherwise scan the whole table.
+CREATE INDEX queue_jobs_job_id_idx ON queue_jobs (queue_name, job_id);
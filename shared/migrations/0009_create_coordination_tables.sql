@@ -0,0 +1,86 @@
+-- What the worker otherwise keeps in Redis, for running on the Postgres queue
+-- backend without Redis. Rows past `expires_at` count as gone; the
+-- prune-history job deletes them once they are older than its retention.
+CREATE TABLE job_idempotency (
+  job_id TEXT PRIMARY KEY,
+  state TEXT NOT NULL,
+  owner TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE job_cancellations (
+  job_id TEXT PRIMARY KEY,
+  cancelled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- `control` is `paused` (target ''), `paused_type` (target: the job type) or
+-- `draining` (target: a worker id, or '*' for every worker).
+CREATE TABLE queue_controls (
+  queue_name TEXT NOT NULL,
+  control TEXT NOT NULL,
+  target TEXT NOT NULL DEFAULT '',
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (queue_name, control, target)
+);
+
+-- Limiter times are epoch milliseconds read from the database clock, so
+-- workers on different hosts agree on them.
+CREATE TABLE rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at_ms BIGINT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  at_ms BIGINT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX rate_limit_events_key_idx ON rate_limit_events (key, at_ms);
+
+CREATE TABLE concurrency_slots (
+  key TEXT NOT NULL,
+  holder TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (key, holder)
+);
+
+CREATE TABLE leader_leases (
+  key TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE scheduler_runs (
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  last_run_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (key, name)
+);
+
+-- `on_complete` is queued on `queue_name` in the transaction that records the
+-- last member's outcome; `job_batch_outcomes` makes a redelivered outcome a
+-- no-op.
+CREATE TABLE job_batches (
+  batch_id TEXT PRIMARY KEY,
+  queue_name TEXT NOT NULL,
+  total INTEGER NOT NULL,
+  completed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  on_complete JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE job_batch_outcomes (
+  batch_id TEXT NOT NULL REFERENCES job_batches (batch_id) ON DELETE CASCADE,
+  job_id TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  PRIMARY KEY (batch_id, job_id)
+);
@@ -0,0 +1,4 @@
+-- The relay claims a batch by stamping `claimed_until` and commits before it
+-- publishes, so no transaction or row lock is held while the queue is slow.
+-- A relay that dies mid-batch leaves its claim to expire.
+ALTER TABLE job_outbox ADD COLUMN claimed_until TIMESTAMPTZ;
@@ -0,0 +1,222 @@
+import {
+  getJobStatus,
+  getPostgresJobStatus,
+  JobStatusStoreOptions,
+  TERMINAL_JOB_STATES,
+  updateJobStatus,
+  updatePostgresJobStatus
+} from "./jobStatus";
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+import { Job, removeWaitingJob } from "./queue";
+import { QueueBackend } from "./queueBackend";
+import { RedisClient } from "./redis";
+import { recordBatchOutcome, recordPostgresBatchOutcome } from "./workflow";
+
+/**
+ * `removed`: the job was still waiting and is gone. `flagged`: it is leased
+ * or somewhere `cancelJob` cannot remove it from, so the worker holding it
+ * drops it. `not_cancellable`: it already finished. `not_found`: no copy and
+ * no status record exist.
+ */
+export type CancelJobResult = "removed" | "flagged" | "not_cancellable" | "not_found";
+
+export interface CancelJobOptions extends Pick<JobStatusStoreOptions, "pool" | "queryOptions"> {
+  ttlSeconds?: number;
+}
+
+const DEFAULT_CANCEL_TTL_SECONDS = 86400;
+
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+export function getJobCancelKey(jobId: string): string {
+  return `job:cancel:${jobId}`;
+}
+
+/**
+ * Cancels a job. A copy still waiting is removed through `queue`, which is
+ * either the backend the workers consume from or, for the Redis list layout,
+ * the queue name. Otherwise the job's status decides: a finished job is left
+ * alone, and a queued or running one gets a cancel flag so the worker holding
+ * it aborts its handler (via the `AbortSignal`) or drops it on dequeue. Pass
+ * a pool to look up statuses that have expired from Redis or that only the
+ * Postgres backend recorded.
+ */
+export async function cancelJob(
+  redis: RedisClient,
+  queue: string | QueueBackend,
+  jobId: string,
+  options: CancelJobOptions = {}
+): Promise<CancelJobResult> {
+  const { ttlSeconds = DEFAULT_CANCEL_TTL_SECONDS, ...storeOptions } = options;
+  const cancelKey = getJobCancelKey(jobId);
+  const removed: Job | null =
+    typeof queue === "string" ? await removeWaitingJob(redis, queue, jobId) : await queue.remove(jobId);
+  if (removed) {
+    // Another copy may already be leased, e.g. after a lease was reaped.
+    await redis.set(cancelKey, new Date().toISOString(), "EX", ttlSeconds);
+    await updateJobStatus(redis, jobId, { state: "cancelled", type: removed.type }, storeOptions);
+    if (removed.batchId) {
+      await recordBatchOutcome(
+        redis,
+        removed.batchId,
+        jobId,
+        "failed",
+        typeof queue === "string" ? {} : { backend: queue }
+      );
+    }
+    return "removed";
+  }
+
+  const status = await getJobStatus(redis, jobId, storeOptions);
+  if (!status) {
+    return "not_found";
+  }
+  if (TERMINAL_JOB_STATES.includes(status.state)) {
+    return "not_cancellable";
+  }
+  await redis.set(cancelKey, new Date().toISOString(), "EX", ttlSeconds);
+  const cancelled = await updateJobStatus(
+    redis,
+    jobId,
+    { state: "cancelled", type: status.type },
+    { ...storeOptions, unlessTerminal: true }
+  );
+  if (!cancelled) {
+    // The job finished between the lookup and the update.
+    await redis.del(cancelKey);
+    return "not_cancellable";
+  }
+  return "flagged";
+}
+
+export async function isJobCancelled(redis: RedisClient, jobId: string): Promise<boolean> {
+  return (await redis.exists(getJobCancelKey(jobId))) > 0;
+}
+
+/**
+ * Returns the subset of `jobIds` that have been cancelled.
+ */
+export async function getCancelledJobIds(redis: RedisClient, jobIds: string[]): Promise<string[]> {
+  if (jobIds.length === 0) {
+    return [];
+  }
+  const flags = await redis.mget(jobIds.map(getJobCancelKey));
+  return jobIds.filter((_, index) => flags[index] !== null);
+}
+
+async function setPostgresCancelFlag(
+  pool: PostgresPool,
+  jobId: string,
+  ttlSeconds: number,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await queryPrepared(
+    pool,
+    {
+      name: "upsert-job-cancellation",
+      text: `
+        INSERT INTO job_cancellations (job_id, cancelled_at, expires_at)
+        VALUES ($1, NOW(), NOW() + ($2::double precision * INTERVAL '1 second'))
+        ON CONFLICT (job_id) DO UPDATE SET
+          cancelled_at = EXCLUDED.cancelled_at,
+          expires_at = EXCLUDED.expires_at
+      `,
+      values: [jobId, ttlSeconds]
+    },
+    queryOptions
+  );
+}
+
+/**
+ * `cancelJob` for the Postgres backend without Redis: the cancel flag lives
+ * in `job_cancellations`, the status in `job_statuses` and batches in
+ * `job_batches`.
+ */
+export async function cancelPostgresJob(
+  pool: PostgresPool,
+  backend: QueueBackend,
+  jobId: string,
+  queryOptions: QueryRetryOptions,
+  ttlSeconds = DEFAULT_CANCEL_TTL_SECONDS
+): Promise<CancelJobResult> {
+  const removed = await backend.remove(jobId);
+  if (removed) {
+    await setPostgresCancelFlag(pool, jobId, ttlSeconds, queryOptions);
+    await updatePostgresJobStatus(
+      pool,
+      jobId,
+      { state: "cancelled", type: removed.type },
+      queryOptions
+    );
+    if (removed.batchId) {
+      await recordPostgresBatchOutcome(pool, removed.batchId, jobId, "failed", queryOptions);
+    }
+    return "removed";
+  }
+
+  const status = await getPostgresJobStatus(pool, jobId, queryOptions);
+  if (!status) {
+    return "not_found";
+  }
+  if (TERMINAL_JOB_STATES.includes(status.state)) {
+    return "not_cancellable";
+  }
+  await setPostgresCancelFlag(pool, jobId, ttlSeconds, queryOptions);
+  const cancelled = await updatePostgresJobStatus(
+    pool,
+    jobId,
+    { state: "cancelled", type: status.type },
+    queryOptions,
+    { unlessTerminal: true }
+  );
+  if (!cancelled) {
+    await queryPrepared(
+      pool,
+      {
+        name: "delete-job-cancellation",
+        text: "DELETE FROM job_cancellations WHERE job_id = $1",
+        values: [jobId]
+      },
+      queryOptions
+    );
+    return "not_cancellable";
+  }
+  return "flagged";
+}
+
+export async function getPostgresCancelledJobIds(
+  pool: PostgresPool,
+  jobIds: string[],
+  queryOptions: QueryRetryOptions
+): Promise<string[]> {
+  if (jobIds.length === 0) {
+    return [];
+  }
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "select-job-cancellations",
+      text: `
+        SELECT job_id FROM job_cancellations
+        WHERE job_id = ANY($1::text[]) AND expires_at > NOW()
+      `,
+      values: [jobIds]
+    },
+    queryOptions
+  );
+  const cancelled = new Set((result.rows as Array<{ job_id: string }>).map((row) => row.job_id));
+  return jobIds.filter((jobId) => cancelled.has(jobId));
+}
+
+export async function isPostgresJobCancelled(
+  pool: PostgresPool,
+  jobId: string,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  return (await getPostgresCancelledJobIds(pool, [jobId], queryOptions)).length > 0;
+}
@@ -87,6 +87,13 @@ export const envParsers = {
     }
     throw new Error('must be "true" or "false"');
   },
+  oneOf: <T extends string>(values: readonly T[]): EnvParser<T> => (raw, name) => {
+    const trimmed = raw.trim() as T;
+    if (!values.includes(trimmed)) {
+      throw new Error(`must be one of: ${values.join(", ")}`);
+    }
+    return trimmed;
+  },
   url: (): EnvParser<string> => (raw, name) => {
     const trimmed = raw.trim();
     if (!trimmed) {
@@ -0,0 +1,154 @@
+import { updateJobStatus } from "./jobStatus";
+import { getPriorityQueueName, Job } from "./queue";
+import { QueueBackend } from "./queueBackend";
+import { RedisClient } from "./redis";
+
+export interface DeadLetterEntry {
+  raw: string;
+  job: Job | null;
+}
+
+export interface DeadLetterFilter {
+  type?: string;
+  error?: string;
+  jobIds?: string[];
+}
+
+// Removes one exact copy of the entry and pushes the replacement only if the
+// entry was still there, so concurrent replays cannot duplicate a job.
+const REPLAY_SCRIPT = `
+local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+if removed > 0 then
+  redis.call("LPUSH", KEYS[2], ARGV[2])
+end
+return removed
+`;
+
+function parseEntry(raw: string): DeadLetterEntry {
+  try {
+    const parsed = JSON.parse(raw) as Job;
+    if (typeof parsed === "object" && parsed !== null && typeof parsed.id === "string") {
+      return { raw, job: parsed };
+    }
+  } catch {
+    // Fall through: unreadable entries are still listed so they can be purged.
+  }
+  return { raw, job: null };
+}
+
+function matchesFilter(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+  const { job } = entry;
+  if (filter.jobIds && (!job || !filter.jobIds.includes(job.id))) {
+    return false;
+  }
+  if (filter.type && job?.type !== filter.type) {
+    return false;
+  }
+  if (filter.error) {
+    const needle = filter.error.toLowerCase();
+    if (!job?.lastError || !job.lastError.toLowerCase().includes(needle)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Returns dead-lettered entries matching the filter, newest first. Entries
+ * that are not valid job JSON are returned with `job: null`.
+ */
+export async function listDeadLetterJobs(
+  redis: RedisClient,
+  deadLetterQueue: string,
+  filter: DeadLetterFilter = {},
+  limit = Infinity
+): Promise<DeadLetterEntry[]> {
+  const raws = await redis.lrange(deadLetterQueue, 0, -1);
+  const matches: DeadLetterEntry[] = [];
+  for (const raw of raws) {
+    const entry = parseEntry(raw);
+    if (matchesFilter(entry, filter)) {
+      matches.push(entry);
+      if (matches.length >= limit) {
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+export async function getDeadLetterJob(
+  redis: RedisClient,
+  deadLetterQueue: string,
+  jobId: string
+): Promise<DeadLetterEntry | null> {
+  const [entry] = await listDeadLetterJobs(redis, deadLetterQueue, { jobIds: [jobId] }, 1);
+  return entry ?? null;
+}
+
+/**
+ * Moves matching jobs back onto their priority list with attempts reset and
+ * failure details cleared. With a `QueueBackend` as `queue`, each entry is
+ * taken off the dead-letter list first and then enqueued through the backend;
+ * an entry whose enqueue fails is put back. Returns the ids of the replayed
+ * jobs.
+ */
+export async function replayDeadLetterJobs(
+  redis: RedisClient,
+  deadLetterQueue: string,
+  queue: string | QueueBackend,
+  filter: DeadLetterFilter
+): Promise<string[]> {
+  const entries = await listDeadLetterJobs(redis, deadLetterQueue, filter);
+  const replayed: string[] = [];
+  for (const { raw, job } of entries) {
+    if (!job) {
+      continue;
+    }
+    const { lastError, failedAt, failedBy, ...rest } = job;
+    const reset: Job = { ...rest, attempts: 0 };
+    if (typeof queue !== "string") {
+      if ((await redis.lrem(deadLetterQueue, 1, raw)) === 0) {
+        continue;
+      }
+      try {
+        await queue.enqueue(reset);
+      } catch (error) {
+        await redis.lpush(deadLetterQueue, raw);
+        throw error;
+      }
+      replayed.push(job.id);
+      continue;
+    }
+    const removed = await redis.eval(
+      REPLAY_SCRIPT,
+      2,
+      deadLetterQueue,
+      getPriorityQueueName(queue, job.priority),
+      raw,
+      JSON.stringify(reset)
+    );
+    if (Number(removed) > 0) {
+      await updateJobStatus(redis, job.id, { state: "queued", type: job.type, attempts: 0 });
+      replayed.push(job.id);
+    }
+  }
+  return replayed;
+}
+
+/**
+ * Deletes matching entries from the dead-letter queue. Returns the number of
+ * entries removed.
+ */
+export async function purgeDeadLetterJobs(
+  redis: RedisClient,
+  deadLetterQueue: string,
+  filter: DeadLetterFilter
+): Promise<number> {
+  const entries = await listDeadLetterJobs(redis, deadLetterQueue, filter);
+  let purged = 0;
+  for (const { raw } of entries) {
+    purged += await redis.lrem(deadLetterQueue, 1, raw);
+  }
+  return purged;
+}
@@ -0,0 +1,292 @@
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+import { RedisClient } from "./redis";
+
+export type IdempotencyState = "in_progress" | "completed" | "failed";
+
+export type IdempotencyClaimResult = "claimed" | "completed" | "in_progress";
+
+export interface IdempotencyRecord {
+  state: IdempotencyState;
+  owner: string;
+  updatedAt: string;
+}
+
+// Only "completed" records block a new claim. A "failed" record is claimable
+// right away, and an "in_progress" claim disappears when its lease expires.
+const CLAIM_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if current then
+  local record = cjson.decode(current)
+  if record.state == "completed" then
+    return "completed"
+  end
+  if record.state == "in_progress" then
+    return "in_progress"
+  end
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", tonumber(ARGV[2]))
+return "claimed"
+`;
+
+// Pushes back the expiry of an in-progress claim held by ARGV[1].
+const EXTEND_CLAIM_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current then
+  return 0
+end
+local record = cjson.decode(current)
+if record.state == "in_progress" and record.owner == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], tonumber(ARGV[2]))
+end
+return 0
+`;
+
+// Deletes the claim only while `owner` still holds it in progress.
+const RELEASE_CLAIM_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current then
+  return 0
+end
+local record = cjson.decode(current)
+if record.state == "in_progress" and record.owner == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+// Writes the final record unless another owner has claimed the job since this
+// owner's claim expired. KEYS: record. ARGV: owner, record JSON, TTL seconds.
+const MARK_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if current then
+  local record = cjson.decode(current)
+  if record.owner ~= ARGV[1] then
+    return 0
+  end
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", tonumber(ARGV[3]))
+return 1
+`;
+
+export function getIdempotencyKey(jobId: string): string {
+  return `idem:${jobId}`;
+}
+
+function serializeRecord(state: IdempotencyState, owner: string): string {
+  const record: IdempotencyRecord = {
+    state,
+    owner,
+    updatedAt: new Date().toISOString()
+  };
+  return JSON.stringify(record);
+}
+
+export async function claimIdempotency(
+  redis: RedisClient,
+  jobId: string,
+  owner: string,
+  leaseMs: number
+): Promise<IdempotencyClaimResult> {
+  const result = await redis.eval(
+    CLAIM_SCRIPT,
+    1,
+    getIdempotencyKey(jobId),
+    serializeRecord("in_progress", owner),
+    leaseMs
+  );
+  return result as IdempotencyClaimResult;
+}
+
+/**
+ * Keeps `owner`'s in-progress claim alive for another `leaseMs`. Returns false
+ * when the claim has expired or moved on, e.g. to another worker.
+ */
+export async function extendIdempotencyClaim(
+  redis: RedisClient,
+  jobId: string,
+  owner: string,
+  leaseMs: number
+): Promise<boolean> {
+  const extended = await redis.eval(EXTEND_CLAIM_SCRIPT, 1, getIdempotencyKey(jobId), owner, leaseMs);
+  return Number(extended) === 1;
+}
+
+/**
+ * Gives up an in-progress claim taken by `owner` without running the job, so
+ * the next delivery can claim it straight away.
+ */
+export async function releaseIdempotencyClaim(
+  redis: RedisClient,
+  jobId: string,
+  owner: string
+): Promise<boolean> {
+  const released = await redis.eval(RELEASE_CLAIM_SCRIPT, 1, getIdempotencyKey(jobId), owner);
+  return Number(released) === 1;
+}
+
+/**
+ * Records that `owner` finished the job. Returns false, writing nothing, when
+ * another owner has claimed the job since `owner`'s claim expired.
+ */
+export async function markIdempotencyCompleted(
+  redis: RedisClient,
+  jobId: string,
+  owner: string,
+  ttlSeconds: number
+): Promise<boolean> {
+  const written = await redis.eval(
+    MARK_SCRIPT,
+    1,
+    getIdempotencyKey(jobId),
+    owner,
+    serializeRecord("completed", owner),
+    ttlSeconds
+  );
+  return Number(written) === 1;
+}
+
+/** Like `markIdempotencyCompleted`, for a job that failed for good. */
+export async function markIdempotencyFailed(
+  redis: RedisClient,
+  jobId: string,
+  owner: string,
+  ttlSeconds: number
+): Promise<boolean> {
+  const written = await redis.eval(
+    MARK_SCRIPT,
+    1,
+    getIdempotencyKey(jobId),
+    owner,
+    serializeRecord("failed", owner),
+    ttlSeconds
+  );
+  return Number(written) === 1;
+}
+
+export async function getIdempotencyRecord(
+  redis: RedisClient,
+  jobId: string
+): Promise<IdempotencyRecord | null> {
+  const raw = await redis.get(getIdempotencyKey(jobId));
+  if (!raw) {
+    return null;
+  }
+  return JSON.parse(raw) as IdempotencyRecord;
+}
+
+// The Postgres variants below keep the same records in `job_idempotency` for
+// workers running without Redis. A row past `expires_at` counts as missing.
+
+// The claim's insert is not visible to the second SELECT, which therefore
+// reports the state that blocked it. A row inserted concurrently by another
+// claim is seen by neither, so no row at all means "in_progress".
+const CLAIM_POSTGRES_QUERY = `
+  WITH claimed AS (
+    INSERT INTO job_idempotency (job_id, state, owner, updated_at, expires_at)
+    VALUES ($1, 'in_progress', $2, NOW(), NOW() + ($3::double precision * INTERVAL '1 millisecond'))
+    ON CONFLICT (job_id) DO UPDATE SET
+      state = EXCLUDED.state,
+      owner = EXCLUDED.owner,
+      updated_at = EXCLUDED.updated_at,
+      expires_at = EXCLUDED.expires_at
+    WHERE job_idempotency.state = 'failed' OR job_idempotency.expires_at <= NOW()
+    RETURNING 'claimed'::text AS result
+  )
+  SELECT result FROM claimed
+  UNION ALL
+  SELECT state FROM job_idempotency
+  WHERE job_id = $1 AND NOT EXISTS (SELECT 1 FROM claimed)
+`;
+
+export async function claimPostgresIdempotency(
+  pool: PostgresPool,
+  jobId: string,
+  owner: string,
+  leaseMs: number,
+  queryOptions: QueryRetryOptions
+): Promise<IdempotencyClaimResult> {
+  const result = await queryPrepared(
+    pool,
+    { name: "claim-idempotency", text: CLAIM_POSTGRES_QUERY, values: [jobId, owner, leaseMs] },
+    queryOptions
+  );
+  const [row] = result.rows as Array<{ result: string }>;
+  return row?.result === "claimed" || row?.result === "completed" ? row.result : "in_progress";
+}
+
+export async function extendPostgresIdempotencyClaim(
+  pool: PostgresPool,
+  jobId: string,
+  owner: string,
+  leaseMs: number,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "extend-idempotency-claim",
+      text: `
+        UPDATE job_idempotency
+        SET expires_at = NOW() + ($3::double precision * INTERVAL '1 millisecond')
+        WHERE job_id = $1 AND owner = $2 AND state = 'in_progress' AND expires_at > NOW()
+      `,
+      values: [jobId, owner, leaseMs]
+    },
+    queryOptions
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function releasePostgresIdempotencyClaim(
+  pool: PostgresPool,
+  jobId: string,
+  owner: string,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "release-idempotency-claim",
+      text: `
+        DELETE FROM job_idempotency
+        WHERE job_id = $1 AND owner = $2 AND state = 'in_progress' AND expires_at > NOW()
+      `,
+      values: [jobId, owner]
+    },
+    queryOptions
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Records the final state of `owner`'s claim, like `markIdempotencyCompleted`
+ * and `markIdempotencyFailed`.
+ */
+export async function markPostgresIdempotency(
+  pool: PostgresPool,
+  jobId: string,
+  owner: string,
+  state: Exclude<IdempotencyState, "in_progress">,
+  ttlSeconds: number,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "mark-idempotency",
+      text: `
+        INSERT INTO job_idempotency (job_id, state, owner, updated_at, expires_at)
+        VALUES ($1, $2, $3, NOW(), NOW() + ($4::double precision * INTERVAL '1 second'))
+        ON CONFLICT (job_id) DO UPDATE SET
+          state = EXCLUDED.state,
+          owner = EXCLUDED.owner,
+          updated_at = EXCLUDED.updated_at,
+          expires_at = EXCLUDED.expires_at
+        WHERE job_idempotency.owner = EXCLUDED.owner OR job_idempotency.expires_at <= NOW()
+      `,
+      values: [jobId, state, owner, ttlSeconds]
+    },
+    queryOptions
+  );
+  return (result.rowCount ?? 0) > 0;
+}
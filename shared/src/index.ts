@@ -1,6 +1,27 @@
 export * from "./redis";
 export * from "./postgres";
+export * from "./migrations";
 export * from "./queue";
+export * from "./queueBackend";
+export * from "./queueBackends";
+export * from "./memoryQueueBackend";
+export * from "./redisStreamQueueBackend";
+export * from "./postgresQueueBackend";
+export * from "./jobSchema";
+export * from "./jobTypes";
+export * from "./idempotency";
+export * from "./jobStatus";
+export * from "./jobResults";
+export * from "./retention";
+export * from "./cron";
+export * from "./leaderLease";
+export * from "./scheduler";
+export * from "./outbox";
+export * from "./workflow";
+export * from "./cancellation";
+export * from "./retryPolicy";
+export * from "./queueControl";
+export * from "./deadLetter";
 export * from "./rateLimit";
 export * from "./health";
 export * from "./dependencyHealth";
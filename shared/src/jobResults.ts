@@ -0,0 +1,71 @@
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+
+export type JobResultStatus = "completed" | "retrying" | "failed" | "cancelled";
+
+/**
+ * Outcome of one run of a job. `attempts` counts runs including this one,
+ * `output` is whatever the handler returned and `jobCreatedAt` is the job's
+ * `createdAt`.
+ */
+export interface JobResultRecord {
+  jobId: string;
+  jobCreatedAt: string;
+  jobType: string;
+  workerId: string;
+  status: JobResultStatus;
+  attempts: number;
+  payload: unknown;
+  output?: unknown;
+  error?: string;
+  startedAt: Date;
+  durationMs: number;
+}
+
+/**
+ * Upserts the job's row in `job_results`, so a redelivered or retried job
+ * replaces the outcome of its previous run.
+ */
+export async function recordJobResult(
+  pool: PostgresPool,
+  record: JobResultRecord,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await queryPrepared(
+    pool,
+    {
+      name: "upsert-job-result",
+      text: `
+        INSERT INTO job_results (
+          job_id, job_created_at, worker_id, job_type, payload, result, status,
+          attempts, error, started_at, duration_ms, processed_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+        ON CONFLICT (job_id, job_created_at) DO UPDATE SET
+          worker_id = EXCLUDED.worker_id,
+          job_type = EXCLUDED.job_type,
+          payload = EXCLUDED.payload,
+          result = EXCLUDED.result,
+          status = EXCLUDED.status,
+          attempts = EXCLUDED.attempts,
+          error = EXCLUDED.error,
+          started_at = EXCLUDED.started_at,
+          duration_ms = EXCLUDED.duration_ms,
+          processed_at = EXCLUDED.processed_at
+      `,
+      values: [
+        record.jobId,
+        record.jobCreatedAt,
+        record.workerId,
+        record.jobType,
+        JSON.stringify(record.payload),
+        record.output === undefined ? null : JSON.stringify(record.output),
+        record.status,
+        record.attempts,
+        record.error ?? null,
+        record.startedAt,
+        Math.round(record.durationMs)
+      ]
+    },
+    queryOptions
+  );
+}
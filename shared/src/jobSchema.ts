@@ -0,0 +1,186 @@
+export type FieldSchema =
+  | {
+      type: "string";
+      optional?: boolean;
+      enum?: readonly string[];
+      minLength?: number;
+      maxLength?: number;
+    }
+  | { type: "number"; optional?: boolean; integer?: boolean; min?: number; max?: number }
+  | { type: "boolean"; optional?: boolean }
+  | { type: "object"; optional?: boolean; properties: PayloadSchema }
+  | { type: "array"; optional?: boolean; items: FieldSchema };
+
+export type PayloadSchema = { readonly [field: string]: FieldSchema };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<S extends PayloadSchema> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type RequiredKeys<S extends PayloadSchema> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type InferField<F> = F extends { type: "string"; enum: readonly (infer E)[] }
+  ? E
+  : F extends { type: "string" }
+    ? string
+    : F extends { type: "number" }
+      ? number
+      : F extends { type: "boolean" }
+        ? boolean
+        : F extends { type: "object"; properties: infer P extends PayloadSchema }
+          ? InferPayload<P>
+          : F extends { type: "array"; items: infer I }
+            ? InferField<I>[]
+            : unknown;
+
+export type InferPayload<S extends PayloadSchema> = Simplify<
+  { [K in RequiredKeys<S>]: InferField<S[K]> } & {
+    [K in OptionalKeys<S>]?: InferField<S[K]>;
+  }
+>;
+
+export interface JobTypeDefinition<P> {
+  type: string;
+  schema: PayloadSchema;
+  // Phantom field carrying the payload type; never set at runtime.
+  readonly payloadType?: P;
+}
+
+export type JobPayloadOf<D> = D extends JobTypeDefinition<infer P> ? P : never;
+
+const schemas = new Map<string, PayloadSchema>();
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateField(field: FieldSchema, value: unknown, path: string, errors: string[]): void {
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") {
+        errors.push(`${path} must be a string (got ${describeType(value)})`);
+        return;
+      }
+      if (field.enum && !field.enum.includes(value)) {
+        errors.push(`${path} must be one of: ${field.enum.join(", ")}`);
+      }
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        errors.push(`${path} must be at least ${field.minLength} characters`);
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        errors.push(`${path} must be at most ${field.maxLength} characters`);
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`${path} must be a finite number (got ${describeType(value)})`);
+        return;
+      }
+      if (field.integer && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      if (field.min !== undefined && value < field.min) {
+        errors.push(`${path} must be >= ${field.min}`);
+      }
+      if (field.max !== undefined && value > field.max) {
+        errors.push(`${path} must be <= ${field.max}`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${path} must be a boolean (got ${describeType(value)})`);
+      }
+      return;
+    case "object":
+      if (!isPlainObject(value)) {
+        errors.push(`${path} must be an object (got ${describeType(value)})`);
+        return;
+      }
+      validateObject(field.properties, value, path, errors);
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array (got ${describeType(value)})`);
+        return;
+      }
+      value.forEach((item, index) => {
+        validateField(field.items, item, `${path}[${index}]`, errors);
+      });
+      return;
+  }
+}
+
+function validateObject(
+  schema: PayloadSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): void {
+  for (const [name, field] of Object.entries(schema)) {
+    const fieldPath = `${path}.${name}`;
+    const fieldValue = value[name];
+    if (fieldValue === undefined) {
+      if (!field.optional) {
+        errors.push(`${fieldPath} is required`);
+      }
+      continue;
+    }
+    validateField(field, fieldValue, fieldPath, errors);
+  }
+}
+
+/**
+ * Registers the payload schema for a job type. Producers and consumers that
+ * import the definition validate payloads against the same schema.
+ */
+export function defineJobType<const S extends PayloadSchema>(
+  type: string,
+  schema: S
+): JobTypeDefinition<InferPayload<S>> {
+  if (schemas.has(type)) {
+    throw new Error(`Job schema already defined for type: ${type}`);
+  }
+  schemas.set(type, schema);
+  return { type, schema };
+}
+
+export function getJobSchema(type: string): PayloadSchema | undefined {
+  return schemas.get(type);
+}
+
+/**
+ * Returns a list of validation errors for the payload, or an empty list when
+ * the payload is valid or no schema is defined for the job type.
+ */
+export function validateJobPayload(type: string, payload: unknown): string[] {
+  const schema = schemas.get(type);
+  if (!schema) {
+    return [];
+  }
+  const errors: string[] = [];
+  if (!isPlainObject(payload)) {
+    errors.push(`payload must be an object (got ${describeType(payload)})`);
+    return errors;
+  }
+  validateObject(schema, payload, "payload", errors);
+  return errors;
+}
+
+export function assertValidJobPayload(type: string, payload: unknown): void {
+  const errors = validateJobPayload(type, payload);
+  if (errors.length > 0) {
+    throw new Error(`Invalid payload for job type "${type}": ${errors.join("; ")}`);
+  }
+}
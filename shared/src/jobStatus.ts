@@ -0,0 +1,396 @@
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+import { Job } from "./queue";
+import { RedisClient } from "./redis";
+
+export type JobState =
+  | "queued"
+  | "scheduled"
+  | "running"
+  | "retrying"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export const TERMINAL_JOB_STATES: readonly JobState[] = ["completed", "failed", "cancelled"];
+
+export const DEFAULT_JOB_STATUS_TTL_SECONDS = 86400;
+
+const MAX_STATUS_HISTORY = 20;
+
+export interface JobStatusTransition {
+  state: JobState;
+  at: string;
+}
+
+export interface JobStatusRecord {
+  id: string;
+  type: string;
+  state: JobState;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  lastError?: string;
+  result?: unknown;
+  history: JobStatusTransition[];
+}
+
+export interface JobStatusUpdate {
+  state: JobState;
+  type?: string;
+  attempts?: number;
+  lastError?: string;
+  result?: unknown;
+  /** The job's `createdAt`, recorded when no status exists yet. */
+  createdAt?: string;
+}
+
+export interface JobStatusStoreOptions {
+  ttlSeconds?: number;
+  pool?: PostgresPool;
+  queryOptions?: QueryRetryOptions;
+  /** Leave the record alone when it is already in a terminal state. */
+  unlessTerminal?: boolean;
+}
+
+// Merges a transition into the stored record in one step, so concurrent
+// updates (the worker and a cancel, say) never overwrite each other's fields.
+// KEYS: status key. ARGV: job id, state, now, type, attempts, last error (empty
+// strings when not given), "1" when the state is terminal, "1" when a result
+// is given, the result as JSON, TTL in seconds, history length, "1" to skip a
+// record that is already terminal (returning nil), the job's creation time
+// for a new record (empty when not given). The result is
+// spliced in as raw JSON because cjson cannot round-trip every value (an
+// empty array comes back as an object).
+const UPDATE_JOB_STATUS_SCRIPT = `
+local existing = {}
+local current = redis.call("GET", KEYS[1])
+if current then
+  local ok, decoded = pcall(cjson.decode, current)
+  if ok and type(decoded) == "table" then
+    existing = decoded
+  end
+end
+if ARGV[12] == "1" and (existing.state == "completed" or existing.state == "failed" or existing.state == "cancelled") then
+  return false
+end
+local state = ARGV[2]
+local now = ARGV[3]
+local createdAt = now
+if ARGV[13] ~= "" then
+  createdAt = ARGV[13]
+end
+local record = {
+  id = ARGV[1],
+  type = existing.type or "unknown",
+  state = state,
+  attempts = tonumber(existing.attempts) or 0,
+  createdAt = existing.createdAt or createdAt,
+  updatedAt = now
+}
+if ARGV[4] ~= "" then
+  record.type = ARGV[4]
+end
+if ARGV[5] ~= "" then
+  record.attempts = tonumber(ARGV[5])
+end
+local history = {}
+if type(existing.history) == "table" then
+  history = existing.history
+end
+table.insert(history, { state = state, at = now })
+while #history > tonumber(ARGV[11]) do
+  table.remove(history, 1)
+end
+record.history = history
+if state == "running" then
+  record.startedAt = now
+elseif type(existing.startedAt) == "string" then
+  record.startedAt = existing.startedAt
+end
+if ARGV[7] == "1" then
+  record.finishedAt = now
+end
+if ARGV[6] ~= "" then
+  record.lastError = ARGV[6]
+elseif state ~= "queued" and type(existing.lastError) == "string" and existing.lastError ~= "" then
+  record.lastError = existing.lastError
+end
+local encoded = cjson.encode(record)
+if ARGV[8] == "1" then
+  encoded = string.sub(encoded, 1, -2) .. ',"result":' .. ARGV[9] .. "}"
+end
+redis.call("SET", KEYS[1], encoded, "EX", tonumber(ARGV[10]))
+return encoded
+`;
+
+export function getJobStatusKey(jobId: string): string {
+  return `job:status:${jobId}`;
+}
+
+export function buildInitialJobStatus(job: Job<object>, state: JobState): JobStatusRecord {
+  const now = new Date().toISOString();
+  return {
+    id: job.id,
+    type: job.type,
+    state,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    updatedAt: now,
+    history: [{ state, at: now }]
+  };
+}
+
+async function readStatusFromRedis(
+  redis: RedisClient,
+  jobId: string
+): Promise<JobStatusRecord | null> {
+  const raw = await redis.get(getJobStatusKey(jobId));
+  return raw ? (JSON.parse(raw) as JobStatusRecord) : null;
+}
+
+async function mirrorJobStatus(
+  pool: PostgresPool,
+  record: JobStatusRecord,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await queryPrepared(
+    pool,
+    {
+      name: "upsert-job-status",
+      text: `
+        INSERT INTO job_statuses (
+          job_id, job_type, state, attempts, last_error, result,
+          created_at, updated_at, started_at, finished_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (job_id) DO UPDATE SET
+          job_type = EXCLUDED.job_type,
+          state = EXCLUDED.state,
+          attempts = EXCLUDED.attempts,
+          last_error = EXCLUDED.last_error,
+          result = EXCLUDED.result,
+          created_at = LEAST(job_statuses.created_at, EXCLUDED.created_at),
+          updated_at = EXCLUDED.updated_at,
+          started_at = EXCLUDED.started_at,
+          finished_at = EXCLUDED.finished_at
+      `,
+      values: [
+        record.id,
+        record.type,
+        record.state,
+        record.attempts,
+        record.lastError ?? null,
+        record.result === undefined ? null : JSON.stringify(record.result),
+        record.createdAt,
+        record.updatedAt,
+        record.startedAt ?? null,
+        record.finishedAt ?? null
+      ]
+    },
+    queryOptions
+  );
+}
+
+/**
+ * Applies a state transition to the job's status record in Redis (refreshing
+ * its TTL) and, when a pool is given, mirrors the result into `job_statuses`.
+ * The merge with the stored record runs as a script, so it is atomic.
+ * Returns null, writing nothing, when `unlessTerminal` is set and the job has
+ * already finished.
+ */
+export async function updateJobStatus(
+  redis: RedisClient,
+  jobId: string,
+  update: JobStatusUpdate,
+  options: JobStatusStoreOptions = {}
+): Promise<JobStatusRecord | null> {
+  const raw = (await redis.eval(
+    UPDATE_JOB_STATUS_SCRIPT,
+    1,
+    getJobStatusKey(jobId),
+    jobId,
+    update.state,
+    new Date().toISOString(),
+    update.type ?? "",
+    update.attempts === undefined ? "" : String(update.attempts),
+    update.lastError ?? "",
+    TERMINAL_JOB_STATES.includes(update.state) ? "1" : "0",
+    update.result === undefined ? "0" : "1",
+    update.result === undefined ? "" : JSON.stringify(update.result),
+    options.ttlSeconds ?? DEFAULT_JOB_STATUS_TTL_SECONDS,
+    MAX_STATUS_HISTORY,
+    options.unlessTerminal ? "1" : "0",
+    update.createdAt ?? ""
+  )) as string | null;
+  if (raw === null) {
+    return null;
+  }
+  const record = JSON.parse(raw) as JobStatusRecord;
+  if (options.pool && options.queryOptions) {
+    await mirrorJobStatus(options.pool, record, options.queryOptions);
+  }
+  return record;
+}
+
+interface JobStatusRow {
+  job_id: string;
+  job_type: string;
+  state: JobState;
+  attempts: number;
+  last_error: string | null;
+  result: unknown;
+  created_at: Date;
+  updated_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+function toJobStatusRecord(row: JobStatusRow): JobStatusRecord {
+  return {
+    id: row.job_id,
+    type: row.job_type,
+    state: row.state,
+    attempts: row.attempts,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    ...(row.started_at ? { startedAt: new Date(row.started_at).toISOString() } : {}),
+    ...(row.finished_at ? { finishedAt: new Date(row.finished_at).toISOString() } : {}),
+    ...(row.last_error ? { lastError: row.last_error } : {}),
+    ...(row.result !== null ? { result: row.result } : {}),
+    history: []
+  };
+}
+
+/**
+ * Reads the job's row from `job_statuses`. Rows carry no transition history.
+ */
+export async function getPostgresJobStatus(
+  pool: PostgresPool,
+  jobId: string,
+  queryOptions: QueryRetryOptions
+): Promise<JobStatusRecord | null> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "select-job-status",
+      text: "SELECT * FROM job_statuses WHERE job_id = $1",
+      values: [jobId]
+    },
+    queryOptions
+  );
+  const row = result.rows[0] as JobStatusRow | undefined;
+  return row ? toJobStatusRecord(row) : null;
+}
+
+/**
+ * Returns the job's status from Redis, falling back to the Postgres mirror
+ * when a pool is given and the Redis record has expired.
+ */
+export async function getJobStatus(
+  redis: RedisClient,
+  jobId: string,
+  options: Pick<JobStatusStoreOptions, "pool" | "queryOptions"> = {}
+): Promise<JobStatusRecord | null> {
+  const cached = await readStatusFromRedis(redis, jobId);
+  if (cached || !options.pool || !options.queryOptions) {
+    return cached;
+  }
+  return getPostgresJobStatus(options.pool, jobId, options.queryOptions);
+}
+
+/**
+ * Applies a state transition straight to `job_statuses`, for workers running
+ * without Redis. The merge mirrors `updateJobStatus` in a single upsert;
+ * `unlessTerminal` leaves a finished job's row alone and returns null.
+ */
+export async function updatePostgresJobStatus(
+  pool: PostgresPool,
+  jobId: string,
+  update: JobStatusUpdate,
+  queryOptions: QueryRetryOptions,
+  options: Pick<JobStatusStoreOptions, "unlessTerminal"> = {}
+): Promise<JobStatusRecord | null> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "update-job-status",
+      text: `
+        INSERT INTO job_statuses (
+          job_id, job_type, state, attempts, last_error, result,
+          created_at, updated_at, started_at, finished_at
+        )
+        VALUES (
+          $1, COALESCE($2::text, 'unknown'), $3, COALESCE($4::integer, 0), $5, $6::jsonb,
+          COALESCE($9::timestamptz, NOW()), NOW(),
+          CASE WHEN $3 = 'running' THEN NOW() END,
+          CASE WHEN $7::boolean THEN NOW() END
+        )
+        ON CONFLICT (job_id) DO UPDATE SET
+          job_type = COALESCE($2::text, job_statuses.job_type),
+          state = EXCLUDED.state,
+          attempts = COALESCE($4::integer, job_statuses.attempts),
+          last_error = CASE
+            WHEN $5::text IS NOT NULL THEN $5::text
+            WHEN EXCLUDED.state = 'queued' THEN NULL
+            ELSE job_statuses.last_error
+          END,
+          result = EXCLUDED.result,
+          updated_at = EXCLUDED.updated_at,
+          started_at = COALESCE(EXCLUDED.started_at, job_statuses.started_at),
+          finished_at = EXCLUDED.finished_at
+        WHERE NOT $8::boolean OR job_statuses.state NOT IN ('completed', 'failed', 'cancelled')
+        RETURNING *
+      `,
+      values: [
+        jobId,
+        update.type ?? null,
+        update.state,
+        update.attempts ?? null,
+        update.lastError || null,
+        update.result === undefined ? null : JSON.stringify(update.result),
+        TERMINAL_JOB_STATES.includes(update.state),
+        options.unlessTerminal ?? false,
+        update.createdAt ?? null
+      ]
+    },
+    queryOptions
+  );
+  const row = result.rows[0] as JobStatusRow | undefined;
+  return row ? toJobStatusRecord(row) : null;
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Polls the job's status until it reaches a terminal state. Rejects when
+ * `timeoutMs` passes first. With a pool it falls back to the Postgres mirror
+ * like `getJobStatus`, so a record that expires from Redis mid-wait is still
+ * seen.
+ */
+export async function waitForJob(
+  redis: RedisClient,
+  jobId: string,
+  timeoutMs: number,
+  pollIntervalMs = 500,
+  options: Pick<JobStatusStoreOptions, "pool" | "queryOptions"> = {}
+): Promise<JobStatusRecord> {
+  const deadline = Date.now() + timeoutMs;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const status = await getJobStatus(redis, jobId, options);
+    if (status && TERMINAL_JOB_STATES.includes(status.state)) {
+      return status;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new Error(
+        `Timed out after ${timeoutMs}ms waiting for job ${jobId} (state: ${status?.state ?? "unknown"})`
+      );
+    }
+    await sleep(Math.min(pollIntervalMs, remaining));
+  }
+}
@@ -0,0 +1,9 @@
+import { defineJobType } from "./jobSchema";
+
+export const echoJob = defineJobType("echo", {
+  message: { type: "string", optional: true, maxLength: 2000 }
+});
+
+export const pruneHistoryJob = defineJobType("prune-history", {
+  dryRun: { type: "boolean", optional: true }
+});
@@ -0,0 +1,90 @@
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+import { RedisClient } from "./redis";
+
+const ACQUIRE_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current then
+  redis.call("SET", KEYS[1], ARGV[1], "PX", tonumber(ARGV[2]))
+  return 1
+end
+if current == ARGV[1] then
+  redis.call("PEXPIRE", KEYS[1], tonumber(ARGV[2]))
+  return 1
+end
+return 0
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Acquires the lease, or renews it when `owner` already holds it. Returns
+ * whether `owner` is the leader for the next `ttlMs`.
+ */
+export async function acquireLeaderLease(
+  redis: RedisClient,
+  key: string,
+  owner: string,
+  ttlMs: number
+): Promise<boolean> {
+  const result = await redis.eval(ACQUIRE_SCRIPT, 1, key, owner, ttlMs);
+  return Number(result) === 1;
+}
+
+export async function releaseLeaderLease(
+  redis: RedisClient,
+  key: string,
+  owner: string
+): Promise<boolean> {
+  const result = await redis.eval(RELEASE_SCRIPT, 1, key, owner);
+  return Number(result) === 1;
+}
+
+/** `acquireLeaderLease` on `leader_leases`, for processes without Redis. */
+export async function acquirePostgresLeaderLease(
+  pool: PostgresPool,
+  key: string,
+  owner: string,
+  ttlMs: number,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "acquire-leader-lease",
+      text: `
+        INSERT INTO leader_leases (key, owner, expires_at)
+        VALUES ($1, $2, NOW() + ($3::double precision * INTERVAL '1 millisecond'))
+        ON CONFLICT (key) DO UPDATE SET
+          owner = EXCLUDED.owner,
+          expires_at = EXCLUDED.expires_at
+        WHERE leader_leases.owner = EXCLUDED.owner OR leader_leases.expires_at <= NOW()
+      `,
+      values: [key, owner, ttlMs]
+    },
+    queryOptions
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function releasePostgresLeaderLease(
+  pool: PostgresPool,
+  key: string,
+  owner: string,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "release-leader-lease",
+      text: "DELETE FROM leader_leases WHERE key = $1 AND owner = $2",
+      values: [key, owner]
+    },
+    queryOptions
+  );
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,196 @@
+import { assertValidJobPayload } from "./jobSchema";
+import {
+  DeadLetterDetails,
+  EnqueueOptions,
+  Job,
+  JOB_PRIORITIES,
+  JobPriority,
+  markDeadLettered,
+  QueueDepth,
+  resolveRunAt
+} from "./queue";
+import { QueueBackend, QueueDequeueOptions, QueueLease } from "./queueBackend";
+
+export interface MemoryQueueLease extends QueueLease {
+  leaseId: number;
+  workerId: string;
+}
+
+export interface MemoryQueueBackendOptions {
+  pollIntervalMs?: number;
+}
+
+interface HeldLease {
+  job: Job;
+  workerId: string;
+  expiresAt: number;
+}
+
+function cloneJob<P extends object>(job: Job<P>): Job<P> {
+  return JSON.parse(JSON.stringify(job)) as Job<P>;
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Process-local queue with the same semantics as the Redis list backend:
+ * priorities, delayed jobs, leases with visibility timeouts and a dead-letter
+ * list. Nothing survives a restart, so it is meant for tests and local runs.
+ * Jobs are copied on the way in and out so callers cannot mutate queued state.
+ */
+export class MemoryQueueBackend implements QueueBackend<MemoryQueueLease> {
+  readonly kind = "memory";
+  private readonly pollIntervalMs: number;
+  private readonly ready: Record<JobPriority, Job[]> = { high: [], normal: [], low: [] };
+  private delayed: Array<{ runAt: number; job: Job }> = [];
+  private readonly leases = new Map<number, HeldLease>();
+  private readonly deadLetters: Job[] = [];
+  private nextLeaseId = 1;
+
+  constructor(options: MemoryQueueBackendOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 50;
+  }
+
+  async enqueue(job: Job<object>, options?: EnqueueOptions): Promise<string> {
+    assertValidJobPayload(job.type, job.payload);
+    const queued = cloneJob(options?.priority ? { ...job, priority: options.priority } : job);
+    const runAt = resolveRunAt(options);
+    if (runAt !== null && runAt > Date.now()) {
+      this.schedule(queued as Job, runAt);
+    } else {
+      this.ready[queued.priority ?? "normal"].push(queued as Job);
+    }
+    return job.id;
+  }
+
+  async dequeue(
+    workerId: string,
+    options: QueueDequeueOptions
+  ): Promise<MemoryQueueLease | null> {
+    const order = options.priorityOrder ?? [...JOB_PRIORITIES];
+    const deadline = Date.now() + options.timeoutSeconds * 1000;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      for (const priority of order) {
+        const job = this.ready[priority].shift();
+        if (job) {
+          const leaseId = this.nextLeaseId;
+          this.nextLeaseId += 1;
+          const expiresAt = Date.now() + options.visibilityTimeoutMs;
+          this.leases.set(leaseId, { job, workerId, expiresAt });
+          return { job: cloneJob(job), expiresAt, leaseId, workerId };
+        }
+      }
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      await sleep(Math.min(this.pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  async ack(lease: MemoryQueueLease): Promise<void> {
+    this.leases.delete(lease.leaseId);
+  }
+
+  // Requeueing or dead-lettering a lease that was reaped (and possibly leased
+  // again) is a no-op, so the job is never both leased and queued.
+  async requeue(lease: MemoryQueueLease, job: Job, runAt?: number): Promise<void> {
+    if (!this.leases.delete(lease.leaseId)) {
+      return;
+    }
+    if (runAt === undefined) {
+      this.ready[job.priority ?? "normal"].unshift(cloneJob(job));
+      return;
+    }
+    this.schedule(cloneJob(job), runAt);
+  }
+
+  async deadLetter(lease: MemoryQueueLease, job: Job, details?: DeadLetterDetails): Promise<void> {
+    if (!this.leases.delete(lease.leaseId)) {
+      return;
+    }
+    this.deadLetters.push(markDeadLettered(cloneJob(job), details));
+  }
+
+  async extendLease(lease: MemoryQueueLease, visibilityTimeoutMs: number): Promise<void> {
+    const held = this.leases.get(lease.leaseId);
+    if (!held) {
+      return;
+    }
+    held.expiresAt = Date.now() + visibilityTimeoutMs;
+    lease.expiresAt = held.expiresAt;
+  }
+
+  async remove(jobId: string): Promise<Job | null> {
+    let removed: Job | null = null;
+    for (const priority of JOB_PRIORITIES) {
+      const list = this.ready[priority];
+      for (let index = list.length - 1; index >= 0; index -= 1) {
+        if (list[index].id === jobId) {
+          [removed] = list.splice(index, 1);
+        }
+      }
+    }
+    const [delayed] = this.delayed.filter((entry) => entry.job.id === jobId);
+    if (delayed) {
+      this.delayed = this.delayed.filter((entry) => entry.job.id !== jobId);
+      removed = delayed.job;
+    }
+    return removed ? cloneJob(removed) : null;
+  }
+
+  async depth(): Promise<QueueDepth> {
+    return {
+      ready: JOB_PRIORITIES.reduce((total, priority) => total + this.ready[priority].length, 0),
+      delayed: this.delayed.length,
+      inFlight: this.leases.size,
+      deadLetter: this.deadLetters.length
+    };
+  }
+
+  async promoteDueJobs(): Promise<number> {
+    const now = Date.now();
+    const due = this.delayed.filter((entry) => entry.runAt <= now);
+    this.delayed = this.delayed.filter((entry) => entry.runAt > now);
+    for (const { job } of due) {
+      this.ready[job.priority ?? "normal"].push(job);
+    }
+    return due.length;
+  }
+
+  async reapExpiredLeases(): Promise<number> {
+    const now = Date.now();
+    return this.releaseLeases((held) => held.expiresAt <= now);
+  }
+
+  async recover(workerId: string): Promise<number> {
+    return this.releaseLeases((held) => held.workerId === workerId);
+  }
+
+  /** Dead-lettered jobs, oldest first. */
+  listDeadLetters(): Job[] {
+    return this.deadLetters.map((job) => cloneJob(job));
+  }
+
+  private schedule(job: Job, runAt: number): void {
+    this.delayed.push({ runAt, job });
+    this.delayed.sort((left, right) => left.runAt - right.runAt);
+  }
+
+  // Released jobs go to the front of their list, like the Redis backend
+  // pushing them onto the consuming end.
+  private releaseLeases(predicate: (held: HeldLease) => boolean): number {
+    let released = 0;
+    for (const [leaseId, held] of this.leases) {
+      if (!predicate(held)) {
+        continue;
+      }
+      this.leases.delete(leaseId);
+      this.ready[held.job.priority ?? "normal"].unshift(held.job);
+      released += 1;
+    }
+    return released;
+  }
+}
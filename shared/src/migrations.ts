@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { PoolClient } from "pg";
+import { Logger } from "./logger";
+import { PostgresPool, PostgresQueryable } from "./postgres";
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+/**
+ * `changed` means the file no longer matches what was applied; `missing` means
+ * the database has a version this checkout has no file for.
+ */
+export type MigrationState = "applied" | "pending" | "changed" | "missing";
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+}
+
+export interface MigrationRunOptions {
+  logger?: Logger;
+}
+
+export interface MigrationRunResult {
+  /** Migrations applied by this run. */
+  applied: Migration[];
+  /** Migrations that were pending when the run started. */
+  pending: Migration[];
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/** `shared/migrations`, which holds the schema for every service. */
+export const DEFAULT_MIGRATIONS_DIR = path.resolve(__dirname, "..", "migrations");
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([A-Za-z0-9_-]+)\.sql$/;
+const MIGRATION_LOCK_NAME = "schema_migrations";
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )
+`;
+
+// Line endings are normalised so a checkout with CRLF files does not look
+// like an edited migration.
+function checksumOf(sql: string): string {
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+/**
+ * Reads `<version>_<name>.sql` files from `dir`, ordered by version. Other
+ * files are ignored; a repeated version is an error.
+ */
+export function loadMigrations(dir: string = DEFAULT_MIGRATIONS_DIR): Migration[] {
+  const migrations: Migration[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+    const sql = fs.readFileSync(path.join(dir, file), "utf-8");
+    migrations.push({
+      version: Number(match[1]),
+      name: match[2],
+      sql,
+      checksum: checksumOf(sql)
+    });
+  }
+  migrations.sort((left, right) => left.version - right.version);
+  for (let index = 1; index < migrations.length; index += 1) {
+    if (migrations[index].version === migrations[index - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[index].version} in ${dir}`);
+    }
+  }
+  return migrations;
+}
+
+async function readAppliedMigrations(db: PostgresQueryable): Promise<AppliedMigrationRow[]> {
+  const result = await db.query(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return result.rows as AppliedMigrationRow[];
+}
+
+function compareMigrations(
+  migrations: Migration[],
+  appliedRows: AppliedMigrationRow[]
+): MigrationStatus[] {
+  const applied = new Map(appliedRows.map((row) => [row.version, row]));
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const row = applied.get(migration.version);
+    if (!row) {
+      return { version: migration.version, name: migration.name, state: "pending", appliedAt: null };
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row.checksum === migration.checksum ? "applied" : "changed",
+      appliedAt: row.applied_at
+    };
+  });
+  const known = new Set(migrations.map((migration) => migration.version));
+  for (const row of appliedRows) {
+    if (!known.has(row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: "missing", appliedAt: row.applied_at });
+    }
+  }
+  return statuses.sort((left, right) => left.version - right.version);
+}
+
+/**
+ * Compares `migrations` with the database without taking the lock or
+ * creating `schema_migrations`, so it is safe against a read-only replica.
+ */
+export async function getMigrationStatus(
+  pool: PostgresPool,
+  migrations: Migration[]
+): Promise<MigrationStatus[]> {
+  const exists = await pool.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+  const [{ exists: tableExists }] = exists.rows as Array<{ exists: boolean }>;
+  return compareMigrations(migrations, tableExists ? await readAppliedMigrations(pool) : []);
+}
+
+async function applyMigration(client: PoolClient, migration: Migration): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await client.query(migration.sql);
+    await client.query({
+      text: "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+      values: [migration.version, migration.name, migration.checksum]
+    });
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Migration ${migration.version}_${migration.name} failed: ${message}`, {
+      cause: error
+    });
+  }
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction
+ * together with its `schema_migrations` row. A session advisory lock makes
+ * containers starting together wait for each other instead of racing, and
+ * the run refuses to start if an applied migration's file has been edited.
+ * Statements that cannot run inside a transaction (such as
+ * `CREATE INDEX CONCURRENTLY`) are not supported.
+ */
+export async function runMigrations(
+  pool: PostgresPool,
+  migrations: Migration[],
+  options: MigrationRunOptions = {}
+): Promise<MigrationRunResult> {
+  const { logger } = options;
+  const client = await pool.connect();
+  try {
+    await client.query({
+      text: "SELECT pg_advisory_lock(hashtext($1))",
+      values: [MIGRATION_LOCK_NAME]
+    });
+    try {
+      await client.query(CREATE_MIGRATIONS_TABLE);
+      const statuses = compareMigrations(migrations, await readAppliedMigrations(client));
+      const changed = statuses.filter((status) => status.state === "changed");
+      if (changed.length > 0) {
+        throw new Error(
+          `Applied migrations were modified: ${changed
+            .map((status) => `${status.version}_${status.name}`)
+            .join(", ")}`
+        );
+      }
+      for (const status of statuses) {
+        if (status.state === "missing") {
+          logger?.warn(
+            `event=migration_missing version=${status.version} name=${status.name}`
+          );
+        }
+      }
+
+      const pendingVersions = new Set(
+        statuses.filter((status) => status.state === "pending").map((status) => status.version)
+      );
+      const pending = migrations.filter((migration) => pendingVersions.has(migration.version));
+      const applied: Migration[] = [];
+      for (const migration of pending) {
+        const startedAt = Date.now();
+        await applyMigration(client, migration);
+        applied.push(migration);
+        logger?.info(
+          `event=migration_applied version=${migration.version} name=${migration.name} duration_ms=${
+            Date.now() - startedAt
+          }`
+        );
+      }
+      return { applied, pending };
+    } finally {
+      await client.query({
+        text: "SELECT pg_advisory_unlock(hashtext($1))",
+        values: [MIGRATION_LOCK_NAME]
+      });
+    }
+  } finally {
+    client.release();
+  }
+}
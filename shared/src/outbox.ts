@@ -0,0 +1,325 @@
+import { assertValidJobPayload } from "./jobSchema";
+import { Logger } from "./logger";
+import { PostgresPool, PostgresQueryable, queryPrepared, QueryRetryOptions } from "./postgres";
+import { enqueueJob, EnqueueOptions, Job, JobPriority, resolveRunAt } from "./queue";
+import { QueueBackend } from "./queueBackend";
+import { RedisClient } from "./redis";
+
+export const DEFAULT_OUTBOX_MARKER_TTL_SECONDS = 7 * 86400;
+
+export const DEFAULT_OUTBOX_MAX_ATTEMPTS = 10;
+
+export const DEFAULT_OUTBOX_PUBLISH_TIMEOUT_MS = 5000;
+
+export const DEFAULT_OUTBOX_CLAIM_TTL_MS = 60000;
+
+export type OutboxEnqueueOptions = Pick<EnqueueOptions, "runAt" | "delayMs" | "priority">;
+
+export interface OutboxRelayBatchOptions {
+  pool: PostgresPool;
+  /**
+   * Checks and sets the publish markers and pushes rows onto Redis lists.
+   * Without it every row's queue needs a backend in `backends`; the Postgres
+   * backend finds an earlier publish by its queued row instead of a marker.
+   */
+  redis?: RedisClient;
+  queryOptions: QueryRetryOptions;
+  batchSize: number;
+  markerTtlSeconds?: number;
+  /** Failed publishes after which a row is marked dead and skipped. */
+  maxAttempts?: number;
+  /** Longest a single row's publish may take before it counts as failed. */
+  publishTimeoutMs?: number;
+  /**
+   * How long a claimed batch is reserved for this relay. Rows it has not
+   * started publishing when less than `publishTimeoutMs` is left go back
+   * unclaimed.
+   */
+  claimTtlMs?: number;
+  /**
+   * Backends to publish through, by queue name. Rows for any other queue are
+   * pushed onto the Redis list named by their `queue_name`.
+   */
+  backends?: Record<string, QueueBackend>;
+  logger?: Logger;
+}
+
+export interface OutboxRelayResult {
+  claimed: number;
+  sent: number;
+  dead: number;
+}
+
+export interface OutboxRelayOptions extends Omit<OutboxRelayBatchOptions, "batchSize" | "logger"> {
+  logger: Logger;
+  batchSize?: number;
+  pollIntervalMs?: number;
+}
+
+interface OutboxRow {
+  id: string;
+  queue_name: string;
+  job_id: string;
+  job: Job;
+  priority: JobPriority | null;
+  run_at: Date | null;
+}
+
+export function getOutboxMarkerKey(rowId: string): string {
+  return `outbox:sent:${rowId}`;
+}
+
+async function withPublishTimeout<T>(task: Promise<T>, timeoutMs: number): Promise<T> {
+  let timeoutId: NodeJS.Timeout | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new Error(`Publish timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Records `job` in `job_outbox` through `db` for the relay to publish to
+ * `queueName`. Pass the client of the transaction that writes the
+ * related data, so the job exists exactly when that data commits. A delay is
+ * turned into an absolute run time here.
+ */
+export async function writeOutboxJob(
+  db: PostgresQueryable,
+  queueName: string,
+  job: Job<object>,
+  options?: OutboxEnqueueOptions
+): Promise<string> {
+  assertValidJobPayload(job.type, job.payload);
+  const runAt = resolveRunAt(options);
+  await db.query({
+    name: "insert-outbox-job",
+    text: `
+      INSERT INTO job_outbox (queue_name, job_id, job, priority, run_at)
+      VALUES ($1, $2, $3, $4, $5)
+    `,
+    values: [
+      queueName,
+      job.id,
+      JSON.stringify(job),
+      options?.priority ?? null,
+      runAt === null ? null : new Date(runAt)
+    ]
+  });
+  return job.id;
+}
+
+/**
+ * Publishes up to `batchSize` unsent outbox rows (through the row's backend
+ * from `backends`, or `enqueueJob` onto its list) and marks them sent. The
+ * rows are claimed first by stamping `claimed_until` in a statement of their
+ * own (`FOR UPDATE SKIP LOCKED`), so concurrent relays never take the same
+ * row and no transaction stays open while publishing. Each push also sets a
+ * marker key in Redis; if a relay dies after publishing but before marking
+ * the row sent, the next relay to claim it finds the marker and only marks it
+ * sent. A row that fails to publish, or takes longer than `publishTimeoutMs`,
+ * stays unsent with `attempts` and `last_error` updated and is retried on the
+ * next batch; after `maxAttempts` failures it gets `dead_at` and is skipped
+ * from then on. A timed-out publish that lands later is found by its marker.
+ */
+export async function relayOutboxBatch(
+  options: OutboxRelayBatchOptions
+): Promise<OutboxRelayResult> {
+  const { pool, redis, queryOptions, batchSize, logger, backends = {} } = options;
+  const markerTtlSeconds = options.markerTtlSeconds ?? DEFAULT_OUTBOX_MARKER_TTL_SECONDS;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_OUTBOX_MAX_ATTEMPTS;
+  const publishTimeoutMs = options.publishTimeoutMs ?? DEFAULT_OUTBOX_PUBLISH_TIMEOUT_MS;
+  const claimTtlMs =
+    options.claimTtlMs ?? Math.max(DEFAULT_OUTBOX_CLAIM_TTL_MS, publishTimeoutMs * 2);
+  if (claimTtlMs <= publishTimeoutMs) {
+    throw new Error("claimTtlMs must be longer than publishTimeoutMs");
+  }
+  // Measured from before the claim, so the local deadline never outlives the
+  // one stored with the rows.
+  const claimDeadline = Date.now() + claimTtlMs;
+  const claimed = await queryPrepared(
+    pool,
+    {
+      name: "claim-outbox-batch",
+      text: `
+        UPDATE job_outbox
+        SET claimed_until = NOW() + ($2::double precision * INTERVAL '1 millisecond')
+        WHERE id IN (
+          SELECT id FROM job_outbox
+          WHERE sent_at IS NULL AND dead_at IS NULL
+            AND (claimed_until IS NULL OR claimed_until <= NOW())
+          ORDER BY id
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, queue_name, job_id, job, priority, run_at
+      `,
+      values: [batchSize, claimTtlMs]
+    },
+    queryOptions
+  );
+  // RETURNING has no order; publish in outbox order.
+  const rows = (claimed.rows as OutboxRow[]).sort(
+    (left, right) => Number(left.id) - Number(right.id)
+  );
+  const sent: string[] = [];
+  const unpublished: string[] = [];
+  let dead = 0;
+  for (const row of rows) {
+    if (Date.now() + publishTimeoutMs >= claimDeadline) {
+      unpublished.push(row.id);
+      continue;
+    }
+    const markerKey = getOutboxMarkerKey(row.id);
+    const publish = async (): Promise<void> => {
+      if (redis && (await redis.exists(markerKey)) > 0) {
+        return;
+      }
+      const enqueueOptions: EnqueueOptions = {
+        priority: row.priority ?? undefined,
+        runAt: row.run_at ?? undefined,
+        publishMarker: { key: markerKey, ttlSeconds: markerTtlSeconds }
+      };
+      const backend = backends[row.queue_name];
+      if (backend) {
+        await backend.enqueue(row.job, enqueueOptions);
+      } else if (redis) {
+        await enqueueJob(redis, row.queue_name, row.job, enqueueOptions);
+      } else {
+        throw new Error(`No queue backend for ${row.queue_name}`);
+      }
+    };
+    try {
+      await withPublishTimeout(publish(), publishTimeoutMs);
+      sent.push(row.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger?.warn(
+        `event=outbox_publish_failed outbox_id=${row.id} job_id=${row.job_id} message="${message}"`
+      );
+      const failed = await queryPrepared(
+        pool,
+        {
+          name: "record-outbox-failure",
+          text: `
+            UPDATE job_outbox
+            SET attempts = attempts + 1,
+              last_error = $2,
+              dead_at = CASE WHEN attempts + 1 >= $3 THEN NOW() END,
+              claimed_until = NULL
+            WHERE id = $1
+            RETURNING attempts, dead_at
+          `,
+          values: [row.id, message, maxAttempts]
+        },
+        queryOptions
+      );
+      const [failure] = failed.rows as Array<{ attempts: number; dead_at: Date | null }>;
+      if (failure?.dead_at) {
+        dead += 1;
+        logger?.error(
+          `event=outbox_row_dead outbox_id=${row.id} job_id=${row.job_id} attempts=${failure.attempts}`
+        );
+      }
+    }
+  }
+  if (sent.length > 0) {
+    await queryPrepared(
+      pool,
+      {
+        name: "mark-outbox-sent",
+        text: `
+          UPDATE job_outbox SET sent_at = NOW(), claimed_until = NULL
+          WHERE id = ANY($1::bigint[])
+        `,
+        values: [sent]
+      },
+      queryOptions
+    );
+  }
+  if (unpublished.length > 0) {
+    await queryPrepared(
+      pool,
+      {
+        name: "release-outbox-claims",
+        text: "UPDATE job_outbox SET claimed_until = NULL WHERE id = ANY($1::bigint[])",
+        values: [unpublished]
+      },
+      queryOptions
+    );
+  }
+  return { claimed: rows.length, sent: sent.length, dead };
+}
+
+/**
+ * Polls `job_outbox` and relays pending rows, draining full batches back to
+ * back. Every worker may run one; row locks keep them from overlapping.
+ */
+export class OutboxRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<void> | null = null;
+  private readonly options: OutboxRelayBatchOptions & { logger: Logger; pollIntervalMs: number };
+
+  constructor(options: OutboxRelayOptions) {
+    this.options = {
+      ...options,
+      batchSize: options.batchSize ?? 100,
+      pollIntervalMs: options.pollIntervalMs ?? 1000
+    };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.pollIntervalMs);
+    void this.tick();
+  }
+
+  /** Stops polling and waits for a batch in progress to finish. */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.current;
+  }
+
+  async tick(): Promise<void> {
+    if (!this.current) {
+      this.current = this.drain().finally(() => {
+        this.current = null;
+      });
+    }
+    await this.current;
+  }
+
+  private async drain(): Promise<void> {
+    const { logger, batchSize } = this.options;
+    try {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const result = await relayOutboxBatch(this.options);
+        if (result.sent > 0) {
+          logger.info(`event=outbox_relayed count=${result.sent}`);
+        }
+        if (result.claimed < batchSize || result.sent === 0 || !this.timer) {
+          return;
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `event=outbox_relay_failed message="${error instanceof Error ? error.message : String(error)}"`
+      );
+    }
+  }
+}
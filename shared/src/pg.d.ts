@@ -16,16 +16,26 @@ declare module "pg" {
     values?: T;
   }
 
+  export interface PoolClient {
+    query<T = unknown[]>(
+      queryTextOrConfig: string | QueryConfig<T>,
+      values?: T
+    ): Promise<QueryResult>;
+    release(error?: Error | boolean): void;
+  }
+
   export class Pool {
     constructor(config?: PoolConfig);
     query<T = unknown[]>(
       queryTextOrConfig: string | QueryConfig<T>,
       values?: T
     ): Promise<QueryResult>;
+    connect(): Promise<PoolClient>;
     end(): Promise<void>;
   }
 
   export interface QueryResult {
     rows: unknown[];
+    rowCount: number | null;
   }
 }
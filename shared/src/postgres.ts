@@ -1,13 +1,31 @@
 import fs from "fs";
-import { Pool, QueryResult } from "pg";
+import { Pool, PoolClient, QueryResult } from "pg";
 import { Logger } from "./logger";
 
+export type PostgresPool = Pool;
+export type PostgresClient = PoolClient;
+
+/** Anything that can run a query: the pool, or a client inside a transaction. */
+export type PostgresQueryable = Pick<Pool, "query">;
+
 export interface PreparedQuery {
   name: string;
   text: string;
   values?: unknown[];
 }
 
+export interface QueryRetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type IsolationLevel = "read committed" | "repeatable read" | "serializable";
+
+export interface TransactionOptions extends QueryRetryOptions {
+  isolationLevel?: IsolationLevel;
+}
+
 const REQUIRED_ENV = [
   "PG_HOST",
   "PG_PORT",
@@ -135,6 +153,16 @@ const TRANSIENT_ERROR_CODES = new Set([
   "08P01"
 ]);
 
+// Only these abort a transaction in a way that rerunning it can fix; the
+// connection errors in TRANSIENT_ERROR_CODES may hit after a COMMIT was sent.
+const TRANSACTION_RETRY_CODES = new Set(["40001", "40P01"]);
+
+const ISOLATION_LEVEL_SQL: Record<IsolationLevel, string> = {
+  "read committed": "READ COMMITTED",
+  "repeatable read": "REPEATABLE READ",
+  serializable: "SERIALIZABLE"
+};
+
 function isTransientError(error: unknown): boolean {
   if (typeof error !== "object" || error === null) {
     return false;
@@ -153,15 +181,15 @@ async function sleep(ms: number): Promise<void> {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export async function queryPrepared(
-  pool: Pool,
-  query: PreparedQuery,
-  options: { maxRetries: number; baseDelayMs: number; maxDelayMs: number }
-): Promise<QueryResult> {
-  if (!query.name) {
-    throw new Error("Prepared statements require a non-empty name");
+function isTransactionRetryError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) {
+    return false;
   }
+  const { code } = error as { code?: string };
+  return code !== undefined && TRANSACTION_RETRY_CODES.has(code);
+}
 
+function assertRetryOptions(options: QueryRetryOptions): void {
   const { maxRetries, baseDelayMs, maxDelayMs } = options;
   const isUnlimitedRetries = maxRetries === UNLIMITED_RETRIES;
   if (!isUnlimitedRetries && (!Number.isInteger(maxRetries) || maxRetries <= 0)) {
@@ -173,13 +201,39 @@ export async function queryPrepared(
   if (!Number.isInteger(maxDelayMs) || maxDelayMs <= 0) {
     throw new Error("PG_QUERY_MAX_DELAY_MS must be a positive integer");
   }
+}
 
+export async function queryPrepared(
+  pool: Pool,
+  query: PreparedQuery,
+  options: QueryRetryOptions
+): Promise<QueryResult> {
+  if (!query.name) {
+    throw new Error("Prepared statements require a non-empty name");
+  }
+  return queryWithRetry(pool, query, options);
+}
+
+/**
+ * Runs `query` with the same retries as `queryPrepared`, unnamed when no
+ * name is given. Use it for statements whose text changes from call to call
+ * (a table name built in, say): each named one would stay prepared on every
+ * pooled connection that ran it.
+ */
+export async function queryWithRetry(
+  pool: Pool,
+  query: Omit<PreparedQuery, "name"> & { name?: string },
+  options: QueryRetryOptions
+): Promise<QueryResult> {
+  assertRetryOptions(options);
+
+  const { maxRetries, baseDelayMs, maxDelayMs } = options;
   let attempt = 0;
   // eslint-disable-next-line no-constant-condition
   while (true) {
     try {
       return await pool.query({
-        name: query.name,
+        ...(query.name ? { name: query.name } : {}),
         text: query.text,
         values: query.values
       });
@@ -193,3 +247,47 @@ export async function queryPrepared(
     }
   }
 }
+
+/**
+ * Runs `fn` inside `BEGIN`/`COMMIT` on a dedicated client and returns its
+ * result. On a serialization failure or deadlock the transaction is rolled
+ * back and `fn` runs again from the start, with the same backoff as
+ * `queryPrepared`, so `fn` must not have side effects outside the database.
+ * Any other error rolls back and is rethrown. The client is always released.
+ */
+export async function withTransaction<T>(
+  pool: Pool,
+  fn: (client: PoolClient) => Promise<T>,
+  options: TransactionOptions
+): Promise<T> {
+  assertRetryOptions(options);
+
+  const { maxRetries, baseDelayMs, maxDelayMs, isolationLevel = "read committed" } = options;
+  let attempt = 0;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const client = await pool.connect();
+    // A client whose ROLLBACK failed is in an unknown state, so it is
+    // destroyed instead of going back to the pool.
+    let discardClient = false;
+    try {
+      await client.query(`BEGIN ISOLATION LEVEL ${ISOLATION_LEVEL_SQL[isolationLevel]}`);
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      try {
+        await client.query("ROLLBACK");
+      } catch {
+        discardClient = true;
+      }
+      attempt += 1;
+      if (attempt > maxRetries || !isTransactionRetryError(error)) {
+        throw error;
+      }
+    } finally {
+      client.release(discardClient);
+    }
+    await sleep(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs));
+  }
+}
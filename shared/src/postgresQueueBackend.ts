@@ -0,0 +1,389 @@
+import { randomUUID } from "crypto";
+import { assertValidJobPayload } from "./jobSchema";
+import {
+  PostgresPool,
+  PostgresQueryable,
+  PreparedQuery,
+  queryPrepared,
+  QueryRetryOptions
+} from "./postgres";
+import {
+  DeadLetterDetails,
+  EnqueueOptions,
+  Job,
+  JOB_PRIORITIES,
+  markDeadLettered,
+  parseJob,
+  QueueDepth,
+  resolveRunAt
+} from "./queue";
+import { QueueBackend, QueueDequeueOptions, QueueLease } from "./queueBackend";
+
+export interface PostgresQueueLease extends QueueLease {
+  rowId: string;
+  leaseToken: string;
+}
+
+export interface PostgresQueueBackendOptions {
+  pool: PostgresPool;
+  queueName: string;
+  queryOptions: QueryRetryOptions;
+  pollIntervalMs?: number;
+}
+
+interface LeasedRow {
+  id: string;
+  job: unknown;
+  lease_token: string;
+  lease_expires_at: Date;
+}
+
+const RELEASED_LEASE_COLUMNS = "leased_by = NULL, lease_token = NULL, lease_expires_at = NULL";
+
+// With a `publishMarker` the job is only inserted when no row for its id is
+// left in the queue: the row itself tells a retried publish that an earlier
+// attempt landed, so no marker key is written.
+const ONCE_ROW = `
+  SELECT $1, $2, $3, $4, $5::jsonb, COALESCE($6::timestamptz, NOW())
+  WHERE NOT EXISTS (SELECT 1 FROM queue_jobs WHERE queue_name = $1 AND job_id = $2)
+`;
+
+function buildEnqueueQuery(queueName: string, job: Job<object>, options?: EnqueueOptions): PreparedQuery {
+  assertValidJobPayload(job.type, job.payload);
+  const queued = options?.priority ? { ...job, priority: options.priority } : job;
+  const runAt = resolveRunAt(options);
+  const scheduled = runAt !== null && runAt > Date.now();
+  const once = options?.publishMarker !== undefined;
+  return {
+    name: once ? "enqueue-queue-job-once" : "enqueue-queue-job",
+    // The initial status row is written in the same statement, so the job and
+    // its status commit (or roll back) together.
+    text: `
+      WITH queued AS (
+        INSERT INTO queue_jobs (queue_name, job_id, job_type, priority, job, run_at)
+        ${once ? ONCE_ROW : "VALUES ($1, $2, $3, $4, $5, COALESCE($6::timestamptz, NOW()))"}
+        RETURNING job_id
+      )
+      INSERT INTO job_statuses (job_id, job_type, state, attempts, created_at, updated_at)
+      SELECT job_id, $3, $7, $8, $9, NOW() FROM queued
+      ON CONFLICT (job_id) DO UPDATE SET
+        job_type = EXCLUDED.job_type,
+        state = EXCLUDED.state,
+        attempts = EXCLUDED.attempts,
+        updated_at = EXCLUDED.updated_at
+    `,
+    values: [
+      queueName,
+      job.id,
+      job.type,
+      queued.priority ?? "normal",
+      JSON.stringify(queued),
+      scheduled ? new Date(runAt).toISOString() : null,
+      scheduled ? "scheduled" : "queued",
+      job.attempts,
+      job.createdAt
+    ]
+  };
+}
+
+/**
+ * Inserts a job into `queue_jobs` through `db`. Pass a client with an open
+ * transaction to enqueue atomically with other writes; no retries are made
+ * here because a failed statement aborts the surrounding transaction.
+ */
+export async function enqueuePostgresJob(
+  db: PostgresQueryable,
+  queueName: string,
+  job: Job<object>,
+  options?: EnqueueOptions
+): Promise<string> {
+  await db.query(buildEnqueueQuery(queueName, job, options));
+  return job.id;
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Queue backend on a Postgres table. Workers lease rows with
+ * `FOR UPDATE SKIP LOCKED`, so concurrent workers never block on or take the
+ * same row, and each lease carries a token that ack/requeue/dead-letter must
+ * match, so a worker whose lease was reaped cannot touch the row again.
+ * Delayed jobs are ready rows with a future `run_at`; dead-lettered jobs stay
+ * in the table with state `dead`.
+ */
+export class PostgresQueueBackend implements QueueBackend<PostgresQueueLease> {
+  readonly kind = "postgres";
+  private readonly pool: PostgresPool;
+  private readonly queueName: string;
+  private readonly queryOptions: QueryRetryOptions;
+  private readonly pollIntervalMs: number;
+
+  constructor(options: PostgresQueueBackendOptions) {
+    this.pool = options.pool;
+    this.queueName = options.queueName;
+    this.queryOptions = options.queryOptions;
+    this.pollIntervalMs = options.pollIntervalMs ?? 500;
+  }
+
+  async enqueue(job: Job<object>, options?: EnqueueOptions): Promise<string> {
+    await queryPrepared(this.pool, buildEnqueueQuery(this.queueName, job, options), this.queryOptions);
+    return job.id;
+  }
+
+  async dequeue(
+    workerId: string,
+    options: QueueDequeueOptions
+  ): Promise<PostgresQueueLease | null> {
+    const order = options.priorityOrder ?? [...JOB_PRIORITIES];
+    const deadline = Date.now() + options.timeoutSeconds * 1000;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      for (const priority of order) {
+        const result = await queryPrepared(
+          this.pool,
+          {
+            name: "lease-queue-job",
+            text: `
+              UPDATE queue_jobs
+              SET state = 'leased',
+                leased_by = $3,
+                lease_token = $4,
+                lease_expires_at = NOW() + ($5::double precision * INTERVAL '1 millisecond')
+              WHERE id = (
+                SELECT id FROM queue_jobs
+                WHERE queue_name = $1 AND priority = $2 AND state = 'ready' AND run_at <= NOW()
+                ORDER BY run_at, id
+                LIMIT 1
+                FOR UPDATE SKIP LOCKED
+              )
+              RETURNING id, job, lease_token, lease_expires_at
+            `,
+            values: [this.queueName, priority, workerId, randomUUID(), options.visibilityTimeoutMs]
+          },
+          this.queryOptions
+        );
+        const row = result.rows[0] as LeasedRow | undefined;
+        if (row) {
+          return this.toLease(row, workerId, options);
+        }
+      }
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      await sleep(Math.min(this.pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  async ack(lease: PostgresQueueLease): Promise<void> {
+    await queryPrepared(
+      this.pool,
+      {
+        name: "ack-queue-job",
+        text: "DELETE FROM queue_jobs WHERE id = $1 AND lease_token = $2",
+        values: [lease.rowId, lease.leaseToken]
+      },
+      this.queryOptions
+    );
+  }
+
+  /** Without `runAt` the row keeps its original `run_at`, so it is picked up first. */
+  async requeue(lease: PostgresQueueLease, job: Job, runAt?: number): Promise<void> {
+    await queryPrepared(
+      this.pool,
+      {
+        name: "requeue-queue-job",
+        text: `
+          UPDATE queue_jobs
+          SET state = 'ready', job = $3, priority = $4,
+            run_at = COALESCE($5::timestamptz, run_at), ${RELEASED_LEASE_COLUMNS}
+          WHERE id = $1 AND lease_token = $2
+        `,
+        values: [
+          lease.rowId,
+          lease.leaseToken,
+          JSON.stringify(job),
+          job.priority ?? "normal",
+          runAt === undefined ? null : new Date(runAt).toISOString()
+        ]
+      },
+      this.queryOptions
+    );
+  }
+
+  async deadLetter(
+    lease: PostgresQueueLease,
+    job: Job,
+    details?: DeadLetterDetails
+  ): Promise<void> {
+    const deadLettered = markDeadLettered(job, details);
+    await queryPrepared(
+      this.pool,
+      {
+        name: "dead-letter-queue-job",
+        text: `
+          UPDATE queue_jobs
+          SET state = 'dead', job = $3, last_error = $4, ${RELEASED_LEASE_COLUMNS}
+          WHERE id = $1 AND lease_token = $2
+        `,
+        values: [
+          lease.rowId,
+          lease.leaseToken,
+          JSON.stringify(deadLettered),
+          deadLettered.lastError ?? null
+        ]
+      },
+      this.queryOptions
+    );
+  }
+
+  async extendLease(lease: PostgresQueueLease, visibilityTimeoutMs: number): Promise<void> {
+    const result = await queryPrepared(
+      this.pool,
+      {
+        name: "extend-queue-job-lease",
+        text: `
+          UPDATE queue_jobs
+          SET lease_expires_at = NOW() + ($3::double precision * INTERVAL '1 millisecond')
+          WHERE id = $1 AND lease_token = $2
+          RETURNING lease_expires_at
+        `,
+        values: [lease.rowId, lease.leaseToken, visibilityTimeoutMs]
+      },
+      this.queryOptions
+    );
+    const row = result.rows[0] as { lease_expires_at: Date } | undefined;
+    if (row) {
+      lease.expiresAt = new Date(row.lease_expires_at).getTime();
+    }
+  }
+
+  /** Deletes the job's row if it is ready or delayed; leased rows are kept. */
+  async remove(jobId: string): Promise<Job | null> {
+    const result = await queryPrepared(
+      this.pool,
+      {
+        name: "remove-queue-job",
+        text: `
+          DELETE FROM queue_jobs
+          WHERE queue_name = $1 AND job_id = $2 AND state = 'ready'
+          RETURNING job
+        `,
+        values: [this.queueName, jobId]
+      },
+      this.queryOptions
+    );
+    const row = result.rows[0] as { job: unknown } | undefined;
+    if (!row) {
+      return null;
+    }
+    return (typeof row.job === "string" ? JSON.parse(row.job) : row.job) as Job;
+  }
+
+  async depth(): Promise<QueueDepth> {
+    const result = await queryPrepared(
+      this.pool,
+      {
+        name: "queue-jobs-depth",
+        text: `
+          SELECT
+            COUNT(*) FILTER (WHERE state = 'ready' AND run_at <= NOW()) AS ready,
+            COUNT(*) FILTER (WHERE state = 'ready' AND run_at > NOW()) AS delayed,
+            COUNT(*) FILTER (WHERE state = 'leased') AS in_flight,
+            COUNT(*) FILTER (WHERE state = 'dead') AS dead_letter
+          FROM queue_jobs
+          WHERE queue_name = $1
+        `,
+        values: [this.queueName]
+      },
+      this.queryOptions
+    );
+    const row = result.rows[0] as Record<string, string>;
+    return {
+      ready: Number(row.ready),
+      delayed: Number(row.delayed),
+      inFlight: Number(row.in_flight),
+      deadLetter: Number(row.dead_letter)
+    };
+  }
+
+  /** Always 0: delayed rows become due on their own once `run_at` passes. */
+  async promoteDueJobs(): Promise<number> {
+    return 0;
+  }
+
+  async reapExpiredLeases(): Promise<number> {
+    const result = await queryPrepared(
+      this.pool,
+      {
+        name: "reap-queue-job-leases",
+        text: `
+          UPDATE queue_jobs
+          SET state = 'ready', ${RELEASED_LEASE_COLUMNS}
+          WHERE queue_name = $1 AND state = 'leased' AND lease_expires_at < NOW()
+          RETURNING id
+        `,
+        values: [this.queueName]
+      },
+      this.queryOptions
+    );
+    return result.rows.length;
+  }
+
+  async recover(workerId: string): Promise<number> {
+    const result = await queryPrepared(
+      this.pool,
+      {
+        name: "recover-queue-job-leases",
+        text: `
+          UPDATE queue_jobs
+          SET state = 'ready', ${RELEASED_LEASE_COLUMNS}
+          WHERE queue_name = $1 AND state = 'leased' AND leased_by = $2
+          RETURNING id
+        `,
+        values: [this.queueName, workerId]
+      },
+      this.queryOptions
+    );
+    return result.rows.length;
+  }
+
+  private async toLease(
+    row: LeasedRow,
+    workerId: string,
+    options: QueueDequeueOptions
+  ): Promise<PostgresQueueLease | null> {
+    const raw = typeof row.job === "string" ? row.job : JSON.stringify(row.job);
+    try {
+      return {
+        job: parseJob(raw),
+        rowId: row.id,
+        leaseToken: row.lease_token,
+        expiresAt: new Date(row.lease_expires_at).getTime()
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await queryPrepared(
+        this.pool,
+        {
+          name: "quarantine-queue-job",
+          text: `
+            UPDATE queue_jobs
+            SET state = 'quarantined', last_error = $3, ${RELEASED_LEASE_COLUMNS}
+            WHERE id = $1 AND lease_token = $2
+          `,
+          values: [row.id, row.lease_token, message]
+        },
+        this.queryOptions
+      );
+      options.onQuarantine?.({
+        raw,
+        error: message,
+        quarantinedAt: new Date().toISOString(),
+        workerId
+      });
+      return null;
+    }
+  }
+}
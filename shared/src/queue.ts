@@ -1,23 +1,56 @@
+import { assertValidJobPayload, JobTypeDefinition } from "./jobSchema";
+import {
+  buildInitialJobStatus,
+  DEFAULT_JOB_STATUS_TTL_SECONDS,
+  getJobStatusKey
+} from "./jobStatus";
 import { RedisClient } from "./redis";
 
-export interface Job {
+export const JOB_PRIORITIES = ["high", "normal", "low"] as const;
+
+export type JobPriority = (typeof JOB_PRIORITIES)[number];
+
+export interface Job<P extends object = Record<string, unknown>> {
   id: string;
   type: string;
-  payload: Record<string, unknown>;
+  payload: P;
   attempts: number;
   maxAttempts: number;
   createdAt: string;
+  priority?: JobPriority;
+  lastError?: string;
+  retryDelayMs?: number;
+  failedAt?: string;
+  failedBy?: string;
+  parent?: { id: string; result: unknown };
+  continuation?: Job;
+  batchId?: string;
+  completesBatch?: string;
 }
 
+export function createJob<P extends object>(
+  id: string,
+  type: JobTypeDefinition<P>,
+  payload: P,
+  maxAttempts: number
+): Job<P>;
 export function createJob(
   id: string,
   type: string,
   payload: Record<string, unknown>,
   maxAttempts: number
-): Job {
+): Job;
+export function createJob(
+  id: string,
+  type: string | JobTypeDefinition<object>,
+  payload: object,
+  maxAttempts: number
+): Job<object> {
+  const typeName = typeof type === "string" ? type : type.type;
+  assertValidJobPayload(typeName, payload);
   return {
     id,
-    type,
+    type: typeName,
     payload,
     attempts: 0,
     maxAttempts,
@@ -25,37 +58,398 @@ export function createJob(
   };
 }
 
+export interface EnqueueOptions {
+  runAt?: Date | number;
+  delayMs?: number;
+  priority?: JobPriority;
+  statusTtlSeconds?: number;
+  /**
+   * Key that `enqueueJob` sets in the same transaction as the push, so a
+   * caller retrying a publish can tell whether an earlier attempt landed.
+   * `PostgresQueueBackend` instead skips a job whose id is still queued.
+   */
+  publishMarker?: { key: string; ttlSeconds: number };
+}
+
+export interface QuarantinedJob {
+  raw: string;
+  error: string;
+  quarantinedAt: string;
+  workerId?: string;
+}
+
+export interface QuarantineStats {
+  size: number;
+  total: number;
+}
+
+export interface QueueDepth {
+  ready: number;
+  delayed: number;
+  inFlight: number;
+  deadLetter: number;
+}
+
+export interface DeadLetterDetails {
+  error: string;
+  workerId: string;
+}
+
+export interface JobLease {
+  job: Job;
+  raw: string;
+  queueName: string;
+  processingList: string;
+  expiresAt: number;
+}
+
+// Scripts that move raw jobs back onto a ready list pick the list from the
+// job's own priority field; anything unreadable goes to the normal list.
+export const PRIORITY_LIST_LUA = `
+local function priority_list(raw, high, normal, low)
+  local ok, decoded = pcall(cjson.decode, raw)
+  if ok and type(decoded) == "table" then
+    if decoded.priority == "high" then
+      return high
+    end
+    if decoded.priority == "low" then
+      return low
+    end
+  end
+  return normal
+end
+`;
+
+const REAP_EXPIRED_LEASE_SCRIPT = `${PRIORITY_LIST_LUA}
+local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+redis.call("ZREM", KEYS[2], ARGV[1])
+if removed > 0 then
+  redis.call("RPUSH", priority_list(ARGV[1], KEYS[3], KEYS[4], KEYS[5]), ARGV[1])
+end
+return removed
+`;
+
+const RECOVER_PROCESSING_LIST_SCRIPT = `${PRIORITY_LIST_LUA}
+local moved = 0
+local raw = redis.call("LPOP", KEYS[1])
+while raw do
+  redis.call("RPUSH", priority_list(raw, KEYS[2], KEYS[3], KEYS[4]), raw)
+  moved = moved + 1
+  raw = redis.call("LPOP", KEYS[1])
+end
+redis.call("DEL", KEYS[5])
+return moved
+`;
+
+const PROMOTE_DUE_JOBS_SCRIPT = `${PRIORITY_LIST_LUA}
+local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[2]))
+for _, raw in ipairs(due) do
+  redis.call("ZREM", KEYS[1], raw)
+  redis.call("LPUSH", priority_list(raw, KEYS[2], KEYS[3], KEYS[4]), raw)
+end
+return #due
+`;
+
+// KEYS: ready lists in the order to try, then processing list, lease set and
+// consumer set. ARGV: lease expiry.
+const DEQUEUE_PRIORITY_SCRIPT = `
+local sourceCount = #KEYS - 3
+local processingList = KEYS[sourceCount + 1]
+for i = 1, sourceCount do
+  local raw = redis.call("RPOP", KEYS[i])
+  if raw then
+    redis.call("LPUSH", processingList, raw)
+    redis.call("ZADD", KEYS[sourceCount + 2], ARGV[1], raw)
+    redis.call("SADD", KEYS[sourceCount + 3], processingList)
+    return raw
+  end
+end
+return false
+`;
+
+const QUARANTINE_FROM_PROCESSING_SCRIPT = `
+redis.call("LREM", KEYS[1], 1, ARGV[1])
+redis.call("ZREM", KEYS[2], ARGV[1])
+redis.call("LPUSH", KEYS[3], ARGV[2])
+return redis.call("INCR", KEYS[4])
+`;
+
+// KEYS: processing list, lease set, destination. ARGV: leased raw job, write
+// command (RPUSH, LPUSH or ZADD), job to write, ZADD score. The write only
+// happens while the leased copy is still in the processing list, so a lease
+// the reaper already returned to the queue yields no second copy.
+const ACK_AND_MOVE_SCRIPT = `
+redis.call("ZREM", KEYS[2], ARGV[1])
+if redis.call("LREM", KEYS[1], 1, ARGV[1]) == 0 then
+  return 0
+end
+if ARGV[2] == "ZADD" then
+  redis.call("ZADD", KEYS[3], ARGV[4], ARGV[3])
+else
+  redis.call(ARGV[2], KEYS[3], ARGV[3])
+end
+return 1
+`;
+
+/**
+ * Parses a raw queue entry into a `Job`, throwing with the reason when it is
+ * malformed or its payload fails the job type's schema.
+ */
+export function parseJob(raw: string): Job {
+  let parsed: Partial<Job>;
+  try {
+    parsed = JSON.parse(raw) as Partial<Job>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid job payload from queue: malformed JSON (${message})`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Invalid job payload from queue: expected a JSON object");
+  }
+  if (typeof parsed.id !== "string" || !parsed.id) {
+    throw new Error("Invalid job payload from queue: missing id");
+  }
+  if (typeof parsed.type !== "string" || !parsed.type) {
+    throw new Error("Invalid job payload from queue: missing type");
+  }
+  if (
+    typeof parsed.payload !== "object" ||
+    parsed.payload === null ||
+    Array.isArray(parsed.payload)
+  ) {
+    throw new Error("Invalid job payload from queue: payload must be an object");
+  }
+  if (typeof parsed.attempts !== "number") {
+    throw new Error("Invalid job payload from queue: attempts must be a number");
+  }
+  if (parsed.priority !== undefined && !JOB_PRIORITIES.includes(parsed.priority)) {
+    throw new Error("Invalid job payload from queue: unknown priority");
+  }
+  try {
+    assertValidJobPayload(parsed.type, parsed.payload);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid job payload from queue: ${message}`);
+  }
+  return {
+    id: parsed.id,
+    type: parsed.type,
+    payload: parsed.payload,
+    attempts: parsed.attempts,
+    maxAttempts: parsed.maxAttempts ?? 5,
+    createdAt: parsed.createdAt ?? new Date().toISOString(),
+    ...(parsed.priority && parsed.priority !== "normal" ? { priority: parsed.priority } : {}),
+    ...(parsed.lastError ? { lastError: parsed.lastError } : {}),
+    ...(typeof parsed.retryDelayMs === "number" ? { retryDelayMs: parsed.retryDelayMs } : {}),
+    ...(parsed.failedAt ? { failedAt: parsed.failedAt } : {}),
+    ...(parsed.failedBy ? { failedBy: parsed.failedBy } : {}),
+    ...(parsed.parent ? { parent: parsed.parent } : {}),
+    ...(parsed.continuation ? { continuation: parsed.continuation } : {}),
+    ...(parsed.batchId ? { batchId: parsed.batchId } : {}),
+    ...(parsed.completesBatch ? { completesBatch: parsed.completesBatch } : {})
+  };
+}
+
+export function markDeadLettered(job: Job, details?: DeadLetterDetails): Job {
+  if (!details) {
+    return job;
+  }
+  return {
+    ...job,
+    lastError: details.error,
+    failedAt: new Date().toISOString(),
+    failedBy: details.workerId
+  };
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Normal priority uses the queue name itself so existing producers and
+ * consumers keep working; other priorities get a suffixed list.
+ */
+export function getPriorityQueueName(queueName: string, priority: JobPriority = "normal"): string {
+  return priority === "normal" ? queueName : `${queueName}:${priority}`;
+}
+
+function getPriorityQueueNames(queueName: string): [string, string, string] {
+  return [
+    getPriorityQueueName(queueName, "high"),
+    getPriorityQueueName(queueName, "normal"),
+    getPriorityQueueName(queueName, "low")
+  ];
+}
+
+/**
+ * Returns the order in which priority lists are drained. Every
+ * `fairnessInterval`-th dequeue checks the lists lowest-first, so low priority
+ * work keeps moving while higher priorities are saturated.
+ */
+export function getPriorityOrder(dequeueCount: number, fairnessInterval: number): JobPriority[] {
+  if (fairnessInterval > 0 && dequeueCount % fairnessInterval === fairnessInterval - 1) {
+    return ["low", "normal", "high"];
+  }
+  return [...JOB_PRIORITIES];
+}
+
+export function getProcessingListName(queueName: string, workerId: string): string {
+  return `${queueName}:processing:${workerId}`;
+}
+
+export function getDelayedSetName(queueName: string): string {
+  return `${queueName}:delayed`;
+}
+
+/**
+ * Turns `runAt`/`delayMs` into epoch milliseconds, or `null` when the job
+ * should be ready immediately.
+ */
+export function resolveRunAt(options?: EnqueueOptions): number | null {
+  if (!options) {
+    return null;
+  }
+  if (options.runAt !== undefined && options.delayMs !== undefined) {
+    throw new Error("Specify either runAt or delayMs, not both");
+  }
+  if (options.runAt !== undefined) {
+    const runAt = options.runAt instanceof Date ? options.runAt.getTime() : options.runAt;
+    if (!Number.isFinite(runAt)) {
+      throw new Error("runAt must be a valid date or epoch milliseconds");
+    }
+    return runAt;
+  }
+  if (options.delayMs !== undefined) {
+    if (!Number.isFinite(options.delayMs) || options.delayMs < 0) {
+      throw new Error("delayMs must be a non-negative number");
+    }
+    return Date.now() + options.delayMs;
+  }
+  return null;
+}
+
+export function getQuarantineListName(queueName: string): string {
+  return `${queueName}:quarantine`;
+}
+
+function getQuarantineCounterName(queueName: string): string {
+  return `${queueName}:quarantine:total`;
+}
+
+function buildQuarantineEntry(raw: string, error: unknown, workerId?: string): QuarantinedJob {
+  return {
+    raw,
+    error: error instanceof Error ? error.message : String(error),
+    quarantinedAt: new Date().toISOString(),
+    ...(workerId ? { workerId } : {})
+  };
+}
+
+function getLeaseSetName(processingList: string): string {
+  return `${processingList}:leases`;
+}
+
+function getConsumerSetName(queueName: string): string {
+  return `${queueName}:consumers`;
+}
+
+/**
+ * Queues the job (or schedules it when `runAt`/`delayMs` is in the future) and
+ * records its initial status. Returns the job id for `getJobStatus` and
+ * `waitForJob`.
+ */
 export async function enqueueJob(
   redis: RedisClient,
   queueName: string,
-  job: Job
-): Promise<void> {
-  const payload = JSON.stringify(job);
-  await redis.lpush(queueName, payload);
+  job: Job<object>,
+  options?: EnqueueOptions
+): Promise<string> {
+  assertValidJobPayload(job.type, job.payload);
+  const queued = options?.priority ? { ...job, priority: options.priority } : job;
+  const payload = JSON.stringify(queued);
+  const runAt = resolveRunAt(options);
+  const scheduled = runAt !== null && runAt > Date.now();
+  const transaction = redis.multi();
+  if (scheduled) {
+    transaction.zadd(getDelayedSetName(queueName), runAt, payload);
+  } else {
+    transaction.lpush(getPriorityQueueName(queueName, queued.priority), payload);
+  }
+  transaction.set(
+    getJobStatusKey(job.id),
+    JSON.stringify(buildInitialJobStatus(job, scheduled ? "scheduled" : "queued")),
+    "EX",
+    options?.statusTtlSeconds ?? DEFAULT_JOB_STATUS_TTL_SECONDS
+  );
+  if (options?.publishMarker) {
+    transaction.set(options.publishMarker.key, job.id, "EX", options.publishMarker.ttlSeconds);
+  }
+  await transaction.exec();
+  return job.id;
 }
 
+/**
+ * Moves delayed jobs whose run time has passed onto the ready list. Returns
+ * the number of jobs promoted.
+ */
+export async function promoteDueJobs(
+  redis: RedisClient,
+  queueName: string,
+  batchSize = 100
+): Promise<number> {
+  const promoted = await redis.eval(
+    PROMOTE_DUE_JOBS_SCRIPT,
+    4,
+    getDelayedSetName(queueName),
+    ...getPriorityQueueNames(queueName),
+    Date.now(),
+    batchSize
+  );
+  return Number(promoted);
+}
+
+/**
+ * Pops the next job, highest priority first. Messages that cannot be parsed into a `Job` are moved to
+ * the quarantine list and `null` is returned, as for an empty queue.
+ */
 export async function dequeueJob(
   redis: RedisClient,
   queueName: string,
-  timeoutSeconds: number
+  timeoutSeconds: number,
+  onQuarantine?: (entry: QuarantinedJob) => void
 ): Promise<Job | null> {
-  const result = await redis.brpop(queueName, timeoutSeconds);
+  const result = await redis.brpop(...getPriorityQueueNames(queueName), timeoutSeconds);
   if (!result) {
     return null;
   }
   const raw = result[1];
-  const parsed = JSON.parse(raw) as Partial<Job>;
-  if (!parsed.id || !parsed.type || !parsed.payload || typeof parsed.attempts !== "number") {
-    throw new Error("Invalid job payload from queue");
+  try {
+    return parseJob(raw);
+  } catch (error) {
+    onQuarantine?.(await quarantineRawJob(redis, queueName, raw, error));
+    return null;
   }
-  return {
-    id: parsed.id,
-    type: parsed.type,
-    payload: parsed.payload,
-    attempts: parsed.attempts,
-    maxAttempts: parsed.maxAttempts ?? 5,
-    createdAt: parsed.createdAt ?? new Date().toISOString()
-  };
+}
+
+/**
+ * Stores an unparseable queue entry on the quarantine list and bumps the
+ * quarantine counter. The caller is responsible for removing the original.
+ */
+export async function quarantineRawJob(
+  redis: RedisClient,
+  queueName: string,
+  raw: string,
+  error: unknown,
+  workerId?: string
+): Promise<QuarantinedJob> {
+  const entry = buildQuarantineEntry(raw, error, workerId);
+  await redis
+    .multi()
+    .lpush(getQuarantineListName(queueName), JSON.stringify(entry))
+    .incr(getQuarantineCounterName(queueName))
+    .exec();
+  return entry;
 }
 
 export async function requeueJob(
@@ -64,14 +458,289 @@ export async function requeueJob(
   job: Job
 ): Promise<void> {
   const payload = JSON.stringify(job);
-  await redis.rpush(queueName, payload);
+  await redis.rpush(getPriorityQueueName(queueName, job.priority), payload);
 }
 
 export async function sendToDeadLetter(
   redis: RedisClient,
   queueName: string,
-  job: Job
+  job: Job,
+  details?: DeadLetterDetails
 ): Promise<void> {
-  const payload = JSON.stringify(job);
+  const payload = JSON.stringify(markDeadLettered(job, details));
   await redis.lpush(queueName, payload);
 }
+
+/**
+ * Atomically moves the next job into this worker's processing list and records
+ * a lease for it. The job stays in Redis until it is acked, so a crash before
+ * the ack leaves it recoverable by `reapExpiredLeases` or
+ * `recoverProcessingList`. Priority lists are tried in `priorityOrder`, and
+ * the call polls until a job arrives or `timeoutSeconds` pass, since BLMOVE
+ * can only wait on a single list. The poll starts every `pollIntervalMs` and
+ * doubles while the lists stay empty, up to `maxPollIntervalMs`, so an idle
+ * worker runs a handful of scripts per call rather than one per interval.
+ */
+export async function dequeueJobReliable(
+  redis: RedisClient,
+  queueName: string,
+  workerId: string,
+  options: {
+    timeoutSeconds: number;
+    visibilityTimeoutMs: number;
+    priorityOrder?: JobPriority[];
+    pollIntervalMs?: number;
+    maxPollIntervalMs?: number;
+    onQuarantine?: (entry: QuarantinedJob) => void;
+  }
+): Promise<JobLease | null> {
+  const processingList = getProcessingListName(queueName, workerId);
+  const leaseSet = getLeaseSetName(processingList);
+  const sources = (options.priorityOrder ?? [...JOB_PRIORITIES]).map((priority) =>
+    getPriorityQueueName(queueName, priority)
+  );
+  const maxPollIntervalMs = options.maxPollIntervalMs ?? 2000;
+  let pollIntervalMs = Math.min(options.pollIntervalMs ?? 100, maxPollIntervalMs);
+  const deadline = Date.now() + options.timeoutSeconds * 1000;
+
+  let raw: string | null = null;
+  let expiresAt = 0;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    expiresAt = Date.now() + options.visibilityTimeoutMs;
+    raw = (await redis.eval(
+      DEQUEUE_PRIORITY_SCRIPT,
+      sources.length + 3,
+      ...sources,
+      processingList,
+      leaseSet,
+      getConsumerSetName(queueName),
+      expiresAt
+    )) as string | null;
+    if (raw || Date.now() >= deadline) {
+      break;
+    }
+    await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    pollIntervalMs = Math.min(pollIntervalMs * 2, maxPollIntervalMs);
+  }
+  if (!raw) {
+    return null;
+  }
+  let job: Job;
+  try {
+    job = parseJob(raw);
+  } catch (error) {
+    const entry = buildQuarantineEntry(raw, error, workerId);
+    await redis.eval(
+      QUARANTINE_FROM_PROCESSING_SCRIPT,
+      4,
+      processingList,
+      leaseSet,
+      getQuarantineListName(queueName),
+      getQuarantineCounterName(queueName),
+      raw,
+      JSON.stringify(entry)
+    );
+    options.onQuarantine?.(entry);
+    return null;
+  }
+  return {
+    job,
+    raw,
+    queueName,
+    processingList,
+    expiresAt
+  };
+}
+
+export async function extendJobLease(
+  redis: RedisClient,
+  lease: JobLease,
+  visibilityTimeoutMs: number
+): Promise<void> {
+  const expiresAt = Date.now() + visibilityTimeoutMs;
+  await redis.zadd(getLeaseSetName(lease.processingList), "XX", expiresAt, lease.raw);
+  lease.expiresAt = expiresAt;
+}
+
+export async function ackJob(redis: RedisClient, lease: JobLease): Promise<void> {
+  await redis
+    .multi()
+    .lrem(lease.processingList, 1, lease.raw)
+    .zrem(getLeaseSetName(lease.processingList), lease.raw)
+    .exec();
+}
+
+export async function ackAndRequeueJob(
+  redis: RedisClient,
+  lease: JobLease,
+  queueName: string,
+  job: Job
+): Promise<void> {
+  await redis.eval(
+    ACK_AND_MOVE_SCRIPT,
+    3,
+    lease.processingList,
+    getLeaseSetName(lease.processingList),
+    getPriorityQueueName(queueName, job.priority),
+    lease.raw,
+    "RPUSH",
+    JSON.stringify(job),
+    0
+  );
+}
+
+export async function ackAndScheduleJob(
+  redis: RedisClient,
+  lease: JobLease,
+  queueName: string,
+  job: Job,
+  runAt: number
+): Promise<void> {
+  await redis.eval(
+    ACK_AND_MOVE_SCRIPT,
+    3,
+    lease.processingList,
+    getLeaseSetName(lease.processingList),
+    getDelayedSetName(queueName),
+    lease.raw,
+    "ZADD",
+    JSON.stringify(job),
+    runAt
+  );
+}
+
+export async function ackAndDeadLetterJob(
+  redis: RedisClient,
+  lease: JobLease,
+  deadLetterQueue: string,
+  job: Job,
+  details?: DeadLetterDetails
+): Promise<void> {
+  await redis.eval(
+    ACK_AND_MOVE_SCRIPT,
+    3,
+    lease.processingList,
+    getLeaseSetName(lease.processingList),
+    deadLetterQueue,
+    lease.raw,
+    "LPUSH",
+    JSON.stringify(markDeadLettered(job, details)),
+    0
+  );
+}
+
+function parseWaitingJob(raw: string): Job | null {
+  try {
+    return JSON.parse(raw) as Job;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes every copy of the job still waiting on a ready list or in the
+ * delayed set and returns it, or null when none was waiting. Leased copies
+ * sit in processing lists and are left alone.
+ */
+export async function removeWaitingJob(
+  redis: RedisClient,
+  queueName: string,
+  jobId: string
+): Promise<Job | null> {
+  let removed: Job | null = null;
+  for (const list of getPriorityQueueNames(queueName)) {
+    for (const raw of await redis.lrange(list, 0, -1)) {
+      const job = parseWaitingJob(raw);
+      if (job?.id === jobId && (await redis.lrem(list, 1, raw)) > 0) {
+        removed = job;
+      }
+    }
+  }
+  const delayedSet = getDelayedSetName(queueName);
+  for (const raw of await redis.zrange(delayedSet, 0, -1)) {
+    const job = parseWaitingJob(raw);
+    if (job?.id === jobId && (await redis.zrem(delayedSet, raw)) > 0) {
+      removed = job;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Returns jobs whose lease expired (in any worker's processing list) to the
+ * consuming end of their priority list. Returns the number of jobs moved.
+ */
+export async function reapExpiredLeases(
+  redis: RedisClient,
+  queueName: string,
+  batchSize = 100
+): Promise<number> {
+  const processingLists = await redis.smembers(getConsumerSetName(queueName));
+  const now = Date.now();
+  let reaped = 0;
+  for (const processingList of processingLists) {
+    const leaseSet = getLeaseSetName(processingList);
+    const expired = await redis.zrangebyscore(leaseSet, "-inf", now, "LIMIT", 0, batchSize);
+    for (const raw of expired) {
+      const removed = await redis.eval(
+        REAP_EXPIRED_LEASE_SCRIPT,
+        5,
+        processingList,
+        leaseSet,
+        ...getPriorityQueueNames(queueName),
+        raw
+      );
+      reaped += Number(removed);
+    }
+  }
+  return reaped;
+}
+
+/**
+ * Moves everything left in this worker's processing list back onto the
+ * ready lists. Meant to run at startup, before the worker takes new leases, so jobs
+ * held by a previous run of the same worker id are not stranded.
+ */
+export async function recoverProcessingList(
+  redis: RedisClient,
+  queueName: string,
+  workerId: string
+): Promise<number> {
+  const processingList = getProcessingListName(queueName, workerId);
+  const moved = await redis.eval(
+    RECOVER_PROCESSING_LIST_SCRIPT,
+    5,
+    processingList,
+    ...getPriorityQueueNames(queueName),
+    getLeaseSetName(processingList)
+  );
+  return Number(moved);
+}
+
+export async function getQuarantineStats(
+  redis: RedisClient,
+  queueName: string
+): Promise<QuarantineStats> {
+  const [size, total] = await Promise.all([
+    redis.llen(getQuarantineListName(queueName)),
+    redis.get(getQuarantineCounterName(queueName))
+  ]);
+  return { size, total: Number(total ?? 0) };
+}
+
+export async function getQueueDepth(
+  redis: RedisClient,
+  queueName: string,
+  deadLetterQueue: string
+): Promise<QueueDepth> {
+  const processingLists = await redis.smembers(getConsumerSetName(queueName));
+  const [ready, delayed, inFlight, deadLetter] = await Promise.all([
+    Promise.all(getPriorityQueueNames(queueName).map((list) => redis.llen(list))),
+    redis.zcard(getDelayedSetName(queueName)),
+    Promise.all(processingLists.map((list) => redis.llen(list))),
+    redis.llen(deadLetterQueue)
+  ]);
+  const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+  return { ready: sum(ready), delayed, inFlight: sum(inFlight), deadLetter };
+}
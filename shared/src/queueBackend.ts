@@ -0,0 +1,130 @@
+import {
+  ackAndDeadLetterJob,
+  ackAndRequeueJob,
+  ackAndScheduleJob,
+  ackJob,
+  DeadLetterDetails,
+  dequeueJobReliable,
+  enqueueJob,
+  EnqueueOptions,
+  extendJobLease,
+  getQueueDepth,
+  Job,
+  JobLease,
+  JobPriority,
+  promoteDueJobs,
+  QuarantinedJob,
+  QueueDepth,
+  reapExpiredLeases,
+  recoverProcessingList,
+  removeWaitingJob
+} from "./queue";
+import { RedisClient } from "./redis";
+
+/**
+ * The part of a lease every backend provides. Backends extend it with
+ * whatever they need to find the job again on ack.
+ */
+export interface QueueLease {
+  job: Job;
+  expiresAt: number;
+}
+
+export interface QueueDequeueOptions {
+  timeoutSeconds: number;
+  visibilityTimeoutMs: number;
+  priorityOrder?: JobPriority[];
+  onQuarantine?: (entry: QuarantinedJob) => void;
+}
+
+/**
+ * Storage the worker consumes jobs from. Producers use `enqueue`, which takes
+ * the same arguments on every backend. Every method that takes a lease also
+ * releases it, so a job is never both leased and queued. `requeue` with a
+ * `runAt` schedules the job instead of making it ready immediately.
+ */
+export interface QueueBackend<L extends QueueLease = QueueLease> {
+  readonly kind: string;
+  enqueue(job: Job<object>, options?: EnqueueOptions): Promise<string>;
+  dequeue(workerId: string, options: QueueDequeueOptions): Promise<L | null>;
+  ack(lease: L): Promise<void>;
+  requeue(lease: L, job: Job, runAt?: number): Promise<void>;
+  deadLetter(lease: L, job: Job, details?: DeadLetterDetails): Promise<void>;
+  extendLease(lease: L, visibilityTimeoutMs: number): Promise<void>;
+  /**
+   * Removes the job while it is still waiting (ready or delayed) and returns
+   * it; null when it is leased, already finished or unknown.
+   */
+  remove(jobId: string): Promise<Job | null>;
+  depth(): Promise<QueueDepth>;
+  /** Moves due delayed jobs onto the ready queue; returns how many moved. */
+  promoteDueJobs(): Promise<number>;
+  /** Makes jobs with expired leases available again; returns how many. */
+  reapExpiredLeases(): Promise<number>;
+  /** Releases everything still leased to `workerId`, e.g. after a restart. */
+  recover(workerId: string): Promise<number>;
+}
+
+export interface RedisListQueueBackendOptions {
+  redis: RedisClient;
+  queueName: string;
+  deadLetterQueue: string;
+}
+
+/** The list-based queue from `queue.ts` behind the `QueueBackend` interface. */
+export class RedisListQueueBackend implements QueueBackend<JobLease> {
+  readonly kind = "redis-list";
+  private readonly options: RedisListQueueBackendOptions;
+
+  constructor(options: RedisListQueueBackendOptions) {
+    this.options = options;
+  }
+
+  async enqueue(job: Job<object>, options?: EnqueueOptions): Promise<string> {
+    return enqueueJob(this.options.redis, this.options.queueName, job, options);
+  }
+
+  async dequeue(workerId: string, options: QueueDequeueOptions): Promise<JobLease | null> {
+    return dequeueJobReliable(this.options.redis, this.options.queueName, workerId, options);
+  }
+
+  async ack(lease: JobLease): Promise<void> {
+    await ackJob(this.options.redis, lease);
+  }
+
+  async requeue(lease: JobLease, job: Job, runAt?: number): Promise<void> {
+    if (runAt === undefined) {
+      await ackAndRequeueJob(this.options.redis, lease, this.options.queueName, job);
+      return;
+    }
+    await ackAndScheduleJob(this.options.redis, lease, this.options.queueName, job, runAt);
+  }
+
+  async deadLetter(lease: JobLease, job: Job, details?: DeadLetterDetails): Promise<void> {
+    await ackAndDeadLetterJob(this.options.redis, lease, this.options.deadLetterQueue, job, details);
+  }
+
+  async extendLease(lease: JobLease, visibilityTimeoutMs: number): Promise<void> {
+    await extendJobLease(this.options.redis, lease, visibilityTimeoutMs);
+  }
+
+  async remove(jobId: string): Promise<Job | null> {
+    return removeWaitingJob(this.options.redis, this.options.queueName, jobId);
+  }
+
+  async depth(): Promise<QueueDepth> {
+    return getQueueDepth(this.options.redis, this.options.queueName, this.options.deadLetterQueue);
+  }
+
+  async promoteDueJobs(): Promise<number> {
+    return promoteDueJobs(this.options.redis, this.options.queueName);
+  }
+
+  async reapExpiredLeases(): Promise<number> {
+    return reapExpiredLeases(this.options.redis, this.options.queueName);
+  }
+
+  async recover(workerId: string): Promise<number> {
+    return recoverProcessingList(this.options.redis, this.options.queueName, workerId);
+  }
+}
@@ -0,0 +1,103 @@
+import { envParsers, loadConfig } from "./config";
+import { MemoryQueueBackend } from "./memoryQueueBackend";
+import { PostgresPool, QueryRetryOptions } from "./postgres";
+import { PostgresQueueBackend } from "./postgresQueueBackend";
+import { QueueBackend, RedisListQueueBackend } from "./queueBackend";
+import { RedisClient } from "./redis";
+import { RedisStreamQueueBackend } from "./redisStreamQueueBackend";
+
+export const QUEUE_BACKENDS = ["redis-list", "redis-stream", "postgres", "memory"] as const;
+
+export type QueueBackendKind = (typeof QUEUE_BACKENDS)[number];
+
+export interface QueueBackendConfig {
+  kind: QueueBackendKind;
+  queueName: string;
+  deadLetterQueue: string;
+  streamGroup: string;
+}
+
+export interface QueueBackendConnections {
+  redis?: RedisClient;
+  pool?: PostgresPool;
+  queryOptions?: QueryRetryOptions;
+}
+
+const MEMORY_BACKEND_ENVIRONMENTS = ["test", "development"];
+
+/**
+ * Reads the queue the worker consumes from `WORKER_QUEUE_NAME`,
+ * `WORKER_DEAD_LETTER_QUEUE`, `WORKER_QUEUE_BACKEND` (default `redis-list`)
+ * and `WORKER_STREAM_GROUP` (default `workers`). Producers read the same
+ * variables so their jobs land where the worker reads.
+ */
+export function loadQueueBackendConfig(): QueueBackendConfig {
+  const config = loadConfig({
+    queueName: {
+      name: "WORKER_QUEUE_NAME",
+      parse: envParsers.nonEmptyString(),
+      required: true
+    },
+    deadLetterQueue: {
+      name: "WORKER_DEAD_LETTER_QUEUE",
+      parse: envParsers.nonEmptyString(),
+      required: true
+    },
+    kind: {
+      name: "WORKER_QUEUE_BACKEND",
+      parse: envParsers.oneOf(QUEUE_BACKENDS),
+      required: false,
+      default: "redis-list" as QueueBackendKind
+    },
+    streamGroup: {
+      name: "WORKER_STREAM_GROUP",
+      parse: envParsers.nonEmptyString(),
+      required: false,
+      default: "workers"
+    }
+  });
+  // A memory queue is invisible to other processes and lost on restart, so
+  // nothing outside tests or development may silently run on one.
+  if (config.kind === "memory" && !MEMORY_BACKEND_ENVIRONMENTS.includes(process.env.NODE_ENV ?? "")) {
+    throw new Error(
+      `WORKER_QUEUE_BACKEND=memory requires NODE_ENV to be ${MEMORY_BACKEND_ENVIRONMENTS.join(" or ")}`
+    );
+  }
+  return config;
+}
+
+/**
+ * Builds the backend `config` names. The Redis backends need `redis` and the
+ * Postgres backend needs `pool` and `queryOptions`.
+ */
+export function createQueueBackend(
+  config: QueueBackendConfig,
+  connections: QueueBackendConnections
+): QueueBackend {
+  const { queueName, deadLetterQueue } = config;
+  if (config.kind === "memory") {
+    return new MemoryQueueBackend();
+  }
+  if (config.kind === "postgres") {
+    if (!connections.pool || !connections.queryOptions) {
+      throw new Error("The postgres queue backend needs a Postgres pool and query options");
+    }
+    return new PostgresQueueBackend({
+      pool: connections.pool,
+      queueName,
+      queryOptions: connections.queryOptions
+    });
+  }
+  if (!connections.redis) {
+    throw new Error(`The ${config.kind} queue backend needs a Redis client`);
+  }
+  if (config.kind === "redis-stream") {
+    return new RedisStreamQueueBackend({
+      redis: connections.redis,
+      queueName,
+      deadLetterQueue,
+      group: config.streamGroup
+    });
+  }
+  return new RedisListQueueBackend({ redis: connections.redis, queueName, deadLetterQueue });
+}
@@ -0,0 +1,281 @@
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+import { RedisClient } from "./redis";
+
+export interface QueuePauseInfo {
+  pausedAt: string;
+  reason?: string;
+}
+
+export interface QueueControlState {
+  paused: QueuePauseInfo | null;
+  pausedTypes: string[];
+  draining: boolean;
+}
+
+// Draining every worker is stored as this member of the draining set.
+const ALL_WORKERS = "*";
+
+function getPausedKey(queueName: string): string {
+  return `${queueName}:paused`;
+}
+
+function getPausedTypesKey(queueName: string): string {
+  return `${queueName}:paused-types`;
+}
+
+function getDrainingKey(queueName: string): string {
+  return `${queueName}:draining`;
+}
+
+export async function pauseQueue(
+  redis: RedisClient,
+  queueName: string,
+  reason?: string
+): Promise<void> {
+  const info: QueuePauseInfo = {
+    pausedAt: new Date().toISOString(),
+    ...(reason ? { reason } : {})
+  };
+  await redis.set(getPausedKey(queueName), JSON.stringify(info));
+}
+
+export async function resumeQueue(redis: RedisClient, queueName: string): Promise<void> {
+  await redis.del(getPausedKey(queueName));
+}
+
+export async function pauseJobType(
+  redis: RedisClient,
+  queueName: string,
+  type: string
+): Promise<void> {
+  await redis.sadd(getPausedTypesKey(queueName), type);
+}
+
+export async function resumeJobType(
+  redis: RedisClient,
+  queueName: string,
+  type: string
+): Promise<void> {
+  await redis.srem(getPausedTypesKey(queueName), type);
+}
+
+/**
+ * Asks one worker (or all of them when `workerId` is omitted) to finish its
+ * in-flight jobs and then stop taking new ones until `undrainWorkers`.
+ */
+export async function drainWorkers(
+  redis: RedisClient,
+  queueName: string,
+  workerId?: string
+): Promise<void> {
+  await redis.sadd(getDrainingKey(queueName), workerId ?? ALL_WORKERS);
+}
+
+export async function undrainWorkers(
+  redis: RedisClient,
+  queueName: string,
+  workerId?: string
+): Promise<void> {
+  if (workerId) {
+    await redis.srem(getDrainingKey(queueName), workerId);
+    return;
+  }
+  await redis.del(getDrainingKey(queueName));
+}
+
+/**
+ * Reads the pause and drain flags that apply to `workerId` (or to the queue as
+ * a whole when no worker id is given).
+ */
+export async function getQueueControlState(
+  redis: RedisClient,
+  queueName: string,
+  workerId?: string
+): Promise<QueueControlState> {
+  const [pausedRaw, pausedTypes, drainingMembers] = await Promise.all([
+    redis.get(getPausedKey(queueName)),
+    redis.smembers(getPausedTypesKey(queueName)),
+    redis.smembers(getDrainingKey(queueName))
+  ]);
+  return {
+    paused: pausedRaw ? (JSON.parse(pausedRaw) as QueuePauseInfo) : null,
+    pausedTypes: pausedTypes.sort(),
+    draining:
+      drainingMembers.includes(ALL_WORKERS) ||
+      (workerId !== undefined && drainingMembers.includes(workerId))
+  };
+}
+
+export async function listDrainingWorkers(
+  redis: RedisClient,
+  queueName: string
+): Promise<string[]> {
+  return (await redis.smembers(getDrainingKey(queueName))).sort();
+}
+
+// The Postgres variants keep the same flags as rows of `queue_controls`, for
+// workers running without Redis.
+type QueueControlKind = "paused" | "paused_type" | "draining";
+
+interface QueueControlRow {
+  control: QueueControlKind;
+  target: string;
+  reason: string | null;
+  created_at: Date;
+}
+
+async function setPostgresControl(
+  pool: PostgresPool,
+  queueName: string,
+  control: QueueControlKind,
+  target: string,
+  reason: string | null,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await queryPrepared(
+    pool,
+    {
+      name: "upsert-queue-control",
+      text: `
+        INSERT INTO queue_controls (queue_name, control, target, reason)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (queue_name, control, target) DO UPDATE SET
+          reason = EXCLUDED.reason,
+          created_at = NOW()
+      `,
+      values: [queueName, control, target, reason]
+    },
+    queryOptions
+  );
+}
+
+// A null `target` clears every row of the control.
+async function clearPostgresControl(
+  pool: PostgresPool,
+  queueName: string,
+  control: QueueControlKind,
+  target: string | null,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await queryPrepared(
+    pool,
+    {
+      name: "delete-queue-control",
+      text: `
+        DELETE FROM queue_controls
+        WHERE queue_name = $1 AND control = $2 AND ($3::text IS NULL OR target = $3::text)
+      `,
+      values: [queueName, control, target]
+    },
+    queryOptions
+  );
+}
+
+async function readPostgresControls(
+  pool: PostgresPool,
+  queueName: string,
+  queryOptions: QueryRetryOptions
+): Promise<QueueControlRow[]> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "select-queue-controls",
+      text: "SELECT control, target, reason, created_at FROM queue_controls WHERE queue_name = $1",
+      values: [queueName]
+    },
+    queryOptions
+  );
+  return result.rows as QueueControlRow[];
+}
+
+export async function pausePostgresQueue(
+  pool: PostgresPool,
+  queueName: string,
+  reason: string | undefined,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await setPostgresControl(pool, queueName, "paused", "", reason ?? null, queryOptions);
+}
+
+export async function resumePostgresQueue(
+  pool: PostgresPool,
+  queueName: string,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await clearPostgresControl(pool, queueName, "paused", null, queryOptions);
+}
+
+export async function pausePostgresJobType(
+  pool: PostgresPool,
+  queueName: string,
+  type: string,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await setPostgresControl(pool, queueName, "paused_type", type, null, queryOptions);
+}
+
+export async function resumePostgresJobType(
+  pool: PostgresPool,
+  queueName: string,
+  type: string,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await clearPostgresControl(pool, queueName, "paused_type", type, queryOptions);
+}
+
+export async function drainPostgresWorkers(
+  pool: PostgresPool,
+  queueName: string,
+  workerId: string | undefined,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await setPostgresControl(pool, queueName, "draining", workerId ?? ALL_WORKERS, null, queryOptions);
+}
+
+export async function undrainPostgresWorkers(
+  pool: PostgresPool,
+  queueName: string,
+  workerId: string | undefined,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await clearPostgresControl(pool, queueName, "draining", workerId ?? null, queryOptions);
+}
+
+export async function getPostgresQueueControlState(
+  pool: PostgresPool,
+  queueName: string,
+  workerId: string | undefined,
+  queryOptions: QueryRetryOptions
+): Promise<QueueControlState> {
+  const rows = await readPostgresControls(pool, queueName, queryOptions);
+  const paused = rows.find((row) => row.control === "paused");
+  const draining = rows
+    .filter((row) => row.control === "draining")
+    .map((row) => row.target);
+  return {
+    paused: paused
+      ? {
+          pausedAt: new Date(paused.created_at).toISOString(),
+          ...(paused.reason ? { reason: paused.reason } : {})
+        }
+      : null,
+    pausedTypes: rows
+      .filter((row) => row.control === "paused_type")
+      .map((row) => row.target)
+      .sort(),
+    draining:
+      draining.includes(ALL_WORKERS) || (workerId !== undefined && draining.includes(workerId))
+  };
+}
+
+export async function listPostgresDrainingWorkers(
+  pool: PostgresPool,
+  queueName: string,
+  queryOptions: QueryRetryOptions
+): Promise<string[]> {
+  const rows = await readPostgresControls(pool, queueName, queryOptions);
+  return rows
+    .filter((row) => row.control === "draining")
+    .map((row) => row.target)
+    .sort();
+}
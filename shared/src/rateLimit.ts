@@ -1,27 +1,475 @@
+import { randomUUID } from "crypto";
+import {
+  PostgresClient,
+  PostgresPool,
+  queryPrepared,
+  QueryRetryOptions,
+  withTransaction
+} from "./postgres";
 import { RedisClient } from "./redis";
 
+/**
+ * `retryAfterMs` is 0 when the call was allowed; `resetAt` (epoch ms) is when
+ * the limiter will be back at full capacity if nothing else is consumed.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+  resetAt: number;
+}
+
+export interface SlidingWindowRule {
+  algorithm: "sliding-window";
+  limit: number;
+  windowMs: number;
+}
+
+export interface TokenBucketRule {
+  algorithm: "token-bucket";
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimitRule = SlidingWindowRule | TokenBucketRule;
+
+// All scripts read the clock from Redis so limiters shared by several
+// containers agree on time, and every write sets its own expiry in the same
+// script, so a crash can never leave a key without a TTL.
+const REDIS_NOW_LUA = `
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+`;
+
+// KEYS: counter. ARGV: limit, window ms.
+const FIXED_WINDOW_SCRIPT = `${REDIS_NOW_LUA}
+local count = redis.call("INCR", KEYS[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  ttl = tonumber(ARGV[2])
+  redis.call("PEXPIRE", KEYS[1], ttl)
+end
+return { count, ttl, now }
+`;
+
+// KEYS: log zset. ARGV: limit, window ms, cost, member prefix.
+// Each allowed unit is one member scored by its timestamp; members older than
+// the window are trimmed before counting.
+const SLIDING_WINDOW_SCRIPT = `${REDIS_NOW_LUA}
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+local count = redis.call("ZCARD", KEYS[1])
+local allowed = 0
+if count + cost <= limit then
+  for i = 1, cost do
+    redis.call("ZADD", KEYS[1], now, ARGV[4] .. ":" .. i)
+  end
+  count = count + cost
+  allowed = 1
+end
+local retryAfter = 0
+local resetAt = now
+local newest = redis.call("ZRANGE", KEYS[1], -1, -1, "WITHSCORES")
+if newest[2] then
+  resetAt = tonumber(newest[2]) + window
+  redis.call("PEXPIRE", KEYS[1], resetAt - now)
+end
+if allowed == 0 then
+  local needed = count + cost - limit
+  local freeing = redis.call("ZRANGE", KEYS[1], needed - 1, needed - 1, "WITHSCORES")
+  if freeing[2] then
+    retryAfter = tonumber(freeing[2]) + window - now
+  else
+    retryAfter = window
+  end
+end
+return { allowed, limit - count, retryAfter, resetAt }
+`;
+
+// KEYS: bucket hash. ARGV: capacity, refill per second, cost.
+const TOKEN_BUCKET_SCRIPT = `${REDIS_NOW_LUA}
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2]) / 1000
+local cost = tonumber(ARGV[3])
+local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(now - updatedAt, 0) * rate)
+local allowed = 0
+local retryAfter = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retryAfter = math.ceil((cost - tokens) / rate)
+end
+local untilFull = math.ceil((capacity - tokens) / rate)
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", now)
+redis.call("PEXPIRE", KEYS[1], math.max(untilFull, 1))
+return { allowed, math.floor(tokens), retryAfter, now + untilFull }
+`;
+
+// KEYS: slot zset. ARGV: holder, limit, ttl ms.
+// Holders are scored by expiry so slots of crashed holders free themselves.
+const ACQUIRE_CONCURRENCY_SLOT_SCRIPT = `${REDIS_NOW_LUA}
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+local held = redis.call("ZSCORE", KEYS[1], ARGV[1])
+if not held and redis.call("ZCARD", KEYS[1]) >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call("ZADD", KEYS[1], now + tonumber(ARGV[3]), ARGV[1])
+local latest = redis.call("ZRANGE", KEYS[1], -1, -1, "WITHSCORES")
+redis.call("PEXPIRE", KEYS[1], tonumber(latest[2]) - now)
+return 1
+`;
+
+function assertPositive(name: string, value: number): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number`);
+  }
+}
+
+/**
+ * Fixed-window counter: at most `limit` calls per `windowSeconds` window.
+ * Cheap, but allows up to twice the limit across a window boundary; prefer
+ * `slidingWindowRateLimit` where that matters.
+ */
 export async function rateLimit(
   redis: RedisClient,
   key: string,
   limit: number,
   windowSeconds: number
-): Promise<{ allowed: boolean; remaining: number }> {
-  const transaction = redis.multi();
-  transaction.incr(key);
-  transaction.ttl(key);
-  const result = await transaction.exec();
-  if (!result) {
-    throw new Error("Rate limit transaction failed");
+): Promise<RateLimitResult> {
+  assertPositive("limit", limit);
+  assertPositive("windowSeconds", windowSeconds);
+  const [count, ttl, now] = (await redis.eval(
+    FIXED_WINDOW_SCRIPT,
+    1,
+    key,
+    limit,
+    Math.ceil(windowSeconds * 1000)
+  )) as [number, number, number];
+  const allowed = count <= limit;
+  return {
+    allowed,
+    remaining: Math.max(limit - count, 0),
+    retryAfterMs: allowed ? 0 : ttl,
+    resetAt: now + ttl
+  };
+}
+
+/**
+ * Sliding-window log: at most `limit` units within any `windowMs` span. Each
+ * call consumes `cost` units only when all of them fit.
+ */
+export async function slidingWindowRateLimit(
+  redis: RedisClient,
+  key: string,
+  limit: number,
+  windowMs: number,
+  cost = 1
+): Promise<RateLimitResult> {
+  assertPositive("limit", limit);
+  assertPositive("windowMs", windowMs);
+  assertPositive("cost", cost);
+  if (cost > limit) {
+    throw new Error("cost must not exceed limit");
   }
+  const [allowed, remaining, retryAfterMs, resetAt] = (await redis.eval(
+    SLIDING_WINDOW_SCRIPT,
+    1,
+    key,
+    Math.floor(limit),
+    Math.ceil(windowMs),
+    Math.floor(cost),
+    randomUUID()
+  )) as [number, number, number, number];
+  return {
+    allowed: allowed === 1,
+    remaining: Math.max(remaining, 0),
+    retryAfterMs,
+    resetAt
+  };
+}
 
-  const count = Number(result[0][1]);
-  const ttl = Number(result[1][1]);
-  if (ttl < 0) {
-    await redis.expire(key, windowSeconds);
+/**
+ * Token bucket holding up to `capacity` tokens and refilling at
+ * `refillPerSecond`. Allows bursts up to `capacity`, then a steady rate.
+ */
+export async function tokenBucketRateLimit(
+  redis: RedisClient,
+  key: string,
+  capacity: number,
+  refillPerSecond: number,
+  cost = 1
+): Promise<RateLimitResult> {
+  assertPositive("capacity", capacity);
+  assertPositive("refillPerSecond", refillPerSecond);
+  assertPositive("cost", cost);
+  if (cost > capacity) {
+    throw new Error("cost must not exceed capacity");
   }
+  const [allowed, remaining, retryAfterMs, resetAt] = (await redis.eval(
+    TOKEN_BUCKET_SCRIPT,
+    1,
+    key,
+    capacity,
+    refillPerSecond,
+    cost
+  )) as [number, number, number, number];
+  return {
+    allowed: allowed === 1,
+    remaining,
+    retryAfterMs,
+    resetAt
+  };
+}
 
+/** Applies `rule` to `key`, so callers can keep limits as plain config. */
+export async function consumeRateLimit(
+  redis: RedisClient,
+  key: string,
+  rule: RateLimitRule,
+  cost = 1
+): Promise<RateLimitResult> {
+  if (rule.algorithm === "sliding-window") {
+    return slidingWindowRateLimit(redis, key, rule.limit, rule.windowMs, cost);
+  }
+  return tokenBucketRateLimit(redis, key, rule.capacity, rule.refillPerSecond, cost);
+}
+
+/**
+ * Takes one of `limit` slots under `key` for `holder` (re-acquiring a held
+ * slot refreshes it). Slots are released with `releaseConcurrencySlot` or
+ * expire after `ttlMs`. Returns false when all slots are taken.
+ */
+export async function acquireConcurrencySlot(
+  redis: RedisClient,
+  key: string,
+  holder: string,
+  limit: number,
+  ttlMs: number
+): Promise<boolean> {
+  assertPositive("limit", limit);
+  assertPositive("ttlMs", ttlMs);
+  const acquired = await redis.eval(
+    ACQUIRE_CONCURRENCY_SLOT_SCRIPT,
+    1,
+    key,
+    holder,
+    Math.floor(limit),
+    Math.ceil(ttlMs)
+  );
+  return Number(acquired) === 1;
+}
+
+export async function releaseConcurrencySlot(
+  redis: RedisClient,
+  key: string,
+  holder: string
+): Promise<void> {
+  await redis.zrem(key, holder);
+}
+
+// The Postgres variants below run the same algorithms for workers without
+// Redis. Each call is one transaction that first takes an advisory lock on
+// the key, so concurrent calls for a key run one at a time, and reads the
+// clock from the database for the same reason the scripts read it from Redis.
+async function lockRateLimitKey(client: PostgresClient, key: string): Promise<number> {
+  const locked = await client.query({
+    name: "lock-rate-limit-key",
+    text: `
+      SELECT (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint AS now
+      FROM pg_advisory_xact_lock(hashtext($1))
+    `,
+    values: [key]
+  });
+  return Number((locked.rows[0] as { now: string }).now);
+}
+
+async function slidingWindowPostgresRateLimit(
+  client: PostgresClient,
+  key: string,
+  limit: number,
+  windowMs: number,
+  cost: number
+): Promise<RateLimitResult> {
+  const now = await lockRateLimitKey(client, key);
+  await client.query({
+    name: "trim-rate-limit-events",
+    text: "DELETE FROM rate_limit_events WHERE key = $1 AND at_ms <= $2",
+    values: [key, now - windowMs]
+  });
+  const logged = await client.query({
+    name: "select-rate-limit-events",
+    text: "SELECT at_ms FROM rate_limit_events WHERE key = $1 ORDER BY at_ms",
+    values: [key]
+  });
+  const events = (logged.rows as Array<{ at_ms: string }>).map((row) => Number(row.at_ms));
+  let count = events.length;
+  const allowed = count + cost <= limit;
+  if (allowed) {
+    await client.query({
+      name: "insert-rate-limit-events",
+      text: `
+        INSERT INTO rate_limit_events (key, at_ms, expires_at)
+        SELECT $1::text, $2::bigint, to_timestamp(($2::bigint + $3::bigint) / 1000.0)
+        FROM generate_series(1, $4::integer)
+      `,
+      values: [key, now, windowMs, cost]
+    });
+    for (let unit = 0; unit < cost; unit += 1) {
+      events.push(now);
+    }
+    count += cost;
+  }
+  const newest = events[events.length - 1];
+  let retryAfterMs = 0;
+  if (!allowed) {
+    const freeing = events[count + cost - limit - 1];
+    retryAfterMs = freeing === undefined ? windowMs : freeing + windowMs - now;
+  }
   return {
-    allowed: count <= limit,
-    remaining: Math.max(limit - count, 0)
+    allowed,
+    remaining: Math.max(limit - count, 0),
+    retryAfterMs,
+    resetAt: newest === undefined ? now : newest + windowMs
   };
 }
+
+async function tokenBucketPostgresRateLimit(
+  client: PostgresClient,
+  key: string,
+  capacity: number,
+  refillPerSecond: number,
+  cost: number
+): Promise<RateLimitResult> {
+  const now = await lockRateLimitKey(client, key);
+  const stored = await client.query({
+    name: "select-rate-limit-bucket",
+    text: "SELECT tokens, updated_at_ms FROM rate_limit_buckets WHERE key = $1",
+    values: [key]
+  });
+  const [bucket] = stored.rows as Array<{ tokens: number; updated_at_ms: string }>;
+  const rate = refillPerSecond / 1000;
+  let tokens = bucket
+    ? Math.min(capacity, bucket.tokens + Math.max(now - Number(bucket.updated_at_ms), 0) * rate)
+    : capacity;
+  const allowed = tokens >= cost;
+  let retryAfterMs = 0;
+  if (allowed) {
+    tokens -= cost;
+  } else {
+    retryAfterMs = Math.ceil((cost - tokens) / rate);
+  }
+  const untilFull = Math.ceil((capacity - tokens) / rate);
+  await client.query({
+    name: "upsert-rate-limit-bucket",
+    text: `
+      INSERT INTO rate_limit_buckets (key, tokens, updated_at_ms, expires_at)
+      VALUES ($1, $2, $3, to_timestamp(($3::bigint + $4::bigint) / 1000.0))
+      ON CONFLICT (key) DO UPDATE SET
+        tokens = EXCLUDED.tokens,
+        updated_at_ms = EXCLUDED.updated_at_ms,
+        expires_at = EXCLUDED.expires_at
+    `,
+    values: [key, tokens, now, Math.max(untilFull, 1)]
+  });
+  return { allowed, remaining: Math.floor(tokens), retryAfterMs, resetAt: now + untilFull };
+}
+
+/** `consumeRateLimit` backed by `rate_limit_events` and `rate_limit_buckets`. */
+export async function consumePostgresRateLimit(
+  pool: PostgresPool,
+  key: string,
+  rule: RateLimitRule,
+  queryOptions: QueryRetryOptions,
+  cost = 1
+): Promise<RateLimitResult> {
+  assertPositive("cost", cost);
+  if (rule.algorithm === "sliding-window") {
+    assertPositive("limit", rule.limit);
+    assertPositive("windowMs", rule.windowMs);
+    if (cost > rule.limit) {
+      throw new Error("cost must not exceed limit");
+    }
+  } else {
+    assertPositive("capacity", rule.capacity);
+    assertPositive("refillPerSecond", rule.refillPerSecond);
+    if (cost > rule.capacity) {
+      throw new Error("cost must not exceed capacity");
+    }
+  }
+  return withTransaction(
+    pool,
+    (client) =>
+      rule.algorithm === "sliding-window"
+        ? slidingWindowPostgresRateLimit(
+            client,
+            key,
+            Math.floor(rule.limit),
+            Math.ceil(rule.windowMs),
+            Math.floor(cost)
+          )
+        : tokenBucketPostgresRateLimit(client, key, rule.capacity, rule.refillPerSecond, cost),
+    queryOptions
+  );
+}
+
+/** `acquireConcurrencySlot` backed by `concurrency_slots`. */
+export async function acquirePostgresConcurrencySlot(
+  pool: PostgresPool,
+  key: string,
+  holder: string,
+  limit: number,
+  ttlMs: number,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  assertPositive("limit", limit);
+  assertPositive("ttlMs", ttlMs);
+  return withTransaction(
+    pool,
+    async (client) => {
+      await lockRateLimitKey(client, key);
+      const slots = await client.query({
+        name: "select-concurrency-slots",
+        text: "SELECT holder FROM concurrency_slots WHERE key = $1 AND expires_at > clock_timestamp()",
+        values: [key]
+      });
+      const holders = (slots.rows as Array<{ holder: string }>).map((row) => row.holder);
+      if (!holders.includes(holder) && holders.length >= Math.floor(limit)) {
+        return false;
+      }
+      await client.query({
+        name: "upsert-concurrency-slot",
+        text: `
+          INSERT INTO concurrency_slots (key, holder, expires_at)
+          VALUES ($1, $2, clock_timestamp() + ($3::double precision * INTERVAL '1 millisecond'))
+          ON CONFLICT (key, holder) DO UPDATE SET expires_at = EXCLUDED.expires_at
+        `,
+        values: [key, holder, Math.ceil(ttlMs)]
+      });
+      return true;
+    },
+    queryOptions
+  );
+}
+
+export async function releasePostgresConcurrencySlot(
+  pool: PostgresPool,
+  key: string,
+  holder: string,
+  queryOptions: QueryRetryOptions
+): Promise<void> {
+  await queryPrepared(
+    pool,
+    {
+      name: "delete-concurrency-slot",
+      text: "DELETE FROM concurrency_slots WHERE key = $1 AND holder = $2",
+      values: [key, holder]
+    },
+    queryOptions
+  );
+}
@@ -0,0 +1,468 @@
+import { assertValidJobPayload } from "./jobSchema";
+import {
+  buildInitialJobStatus,
+  DEFAULT_JOB_STATUS_TTL_SECONDS,
+  getJobStatusKey
+} from "./jobStatus";
+import {
+  DeadLetterDetails,
+  EnqueueOptions,
+  Job,
+  JOB_PRIORITIES,
+  JobPriority,
+  markDeadLettered,
+  parseJob,
+  PRIORITY_LIST_LUA,
+  QueueDepth,
+  quarantineRawJob,
+  resolveRunAt
+} from "./queue";
+import { QueueBackend, QueueDequeueOptions, QueueLease } from "./queueBackend";
+import { RedisClient } from "./redis";
+
+export interface StreamQueueLease extends QueueLease {
+  stream: string;
+  entryId: string;
+  workerId: string;
+  deliveryCount: number;
+}
+
+export interface RedisStreamQueueBackendOptions {
+  redis: RedisClient;
+  queueName: string;
+  deadLetterQueue: string;
+  group?: string;
+  pollIntervalMs?: number;
+}
+
+type StreamEntry = [id: string, fields: string[]];
+
+const PROMOTE_DUE_STREAM_JOBS_SCRIPT = `${PRIORITY_LIST_LUA}
+local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[2]))
+for _, raw in ipairs(due) do
+  redis.call("ZREM", KEYS[1], raw)
+  redis.call("XADD", priority_list(raw, KEYS[2], KEYS[3], KEYS[4]), "*", "job", raw)
+end
+return #due
+`;
+
+// KEYS: stream, destination (stream, delayed set or dead-letter list). ARGV:
+// group, entry id, consumer, delivery count, write command (XADD, ZADD or
+// LPUSH), job to write, ZADD score. XACK succeeds for whichever consumer holds
+// the entry, so the lease is checked first: once XAUTOCLAIM has handed the
+// entry to another delivery, the stale holder writes nothing.
+const ACK_AND_MOVE_SCRIPT = `
+local pending = redis.call("XPENDING", KEYS[1], ARGV[1], ARGV[2], ARGV[2], 1)[1]
+if not pending or pending[2] ~= ARGV[3] or tonumber(pending[4]) ~= tonumber(ARGV[4]) then
+  return 0
+end
+if redis.call("XACK", KEYS[1], ARGV[1], ARGV[2]) == 0 then
+  return 0
+end
+redis.call("XDEL", KEYS[1], ARGV[2])
+if ARGV[5] == "XADD" then
+  redis.call("XADD", KEYS[2], "*", "job", ARGV[6])
+elseif ARGV[5] == "ZADD" then
+  redis.call("ZADD", KEYS[2], ARGV[7], ARGV[6])
+else
+  redis.call("LPUSH", KEYS[2], ARGV[6])
+end
+return 1
+`;
+
+/**
+ * Normal priority uses `<queue>:stream`; other priorities get a suffixed
+ * stream, mirroring `getPriorityQueueName`.
+ */
+export function getStreamName(queueName: string, priority: JobPriority = "normal"): string {
+  const stream = `${queueName}:stream`;
+  return priority === "normal" ? stream : `${stream}:${priority}`;
+}
+
+function getStreamDelayedSetName(queueName: string): string {
+  return `${queueName}:stream:delayed`;
+}
+
+function getEntryJob(fields: string[]): string {
+  for (let index = 0; index < fields.length - 1; index += 2) {
+    if (fields[index] === "job") {
+      return fields[index + 1];
+    }
+  }
+  return "";
+}
+
+function parseWaitingJob(raw: string): Job | null {
+  try {
+    return JSON.parse(raw) as Job;
+  } catch {
+    return null;
+  }
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Queue backend on Redis Streams with one consumer group per queue. Each
+ * worker reads as a consumer named after its worker id, so Redis tracks which
+ * entries every worker holds and how often each was delivered. Entries left
+ * idle longer than the visibility timeout (for example by a crashed worker)
+ * are taken over with XAUTOCLAIM before new entries are read, keeping their
+ * delivery count. Acked, requeued and dead-lettered entries are deleted from
+ * the stream, so its length is the backlog plus what is in flight.
+ */
+export class RedisStreamQueueBackend implements QueueBackend<StreamQueueLease> {
+  readonly kind = "redis-stream";
+  private readonly redis: RedisClient;
+  private readonly queueName: string;
+  private readonly deadLetterQueue: string;
+  private readonly group: string;
+  private readonly pollIntervalMs: number;
+  private groupsReady: Promise<void> | null = null;
+  // Entries this consumer still held from a previous run, handed out first.
+  private recovered: Array<{ stream: string; entryId: string }> = [];
+  // XAUTOCLAIM scans the pending list in pages; resume where the last scan
+  // stopped so idle entries behind many fresh ones are still found.
+  private readonly claimCursors = new Map<string, string>();
+
+  constructor(options: RedisStreamQueueBackendOptions) {
+    this.redis = options.redis;
+    this.queueName = options.queueName;
+    this.deadLetterQueue = options.deadLetterQueue;
+    this.group = options.group ?? "workers";
+    this.pollIntervalMs = options.pollIntervalMs ?? 250;
+  }
+
+  async enqueue(job: Job<object>, options?: EnqueueOptions): Promise<string> {
+    assertValidJobPayload(job.type, job.payload);
+    const queued = options?.priority ? { ...job, priority: options.priority } : job;
+    const payload = JSON.stringify(queued);
+    const runAt = resolveRunAt(options);
+    const scheduled = runAt !== null && runAt > Date.now();
+    const transaction = this.redis.multi();
+    if (scheduled) {
+      transaction.zadd(getStreamDelayedSetName(this.queueName), runAt, payload);
+    } else {
+      transaction.xadd(getStreamName(this.queueName, queued.priority), "*", "job", payload);
+    }
+    transaction.set(
+      getJobStatusKey(job.id),
+      JSON.stringify(buildInitialJobStatus(job, scheduled ? "scheduled" : "queued")),
+      "EX",
+      options?.statusTtlSeconds ?? DEFAULT_JOB_STATUS_TTL_SECONDS
+    );
+    if (options?.publishMarker) {
+      transaction.set(options.publishMarker.key, job.id, "EX", options.publishMarker.ttlSeconds);
+    }
+    await transaction.exec();
+    return job.id;
+  }
+
+  async dequeue(
+    workerId: string,
+    options: QueueDequeueOptions
+  ): Promise<StreamQueueLease | null> {
+    await this.ensureGroups();
+    const order = options.priorityOrder ?? [...JOB_PRIORITIES];
+    const deadline = Date.now() + options.timeoutSeconds * 1000;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const taken =
+        (await this.takeRecovered(workerId)) ?? (await this.takeNext(workerId, order, options));
+      if (taken) {
+        return this.toLease(taken, workerId, options);
+      }
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      await sleep(Math.min(this.pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  async ack(lease: StreamQueueLease): Promise<void> {
+    await this.redis
+      .multi()
+      .xack(lease.stream, this.group, lease.entryId)
+      .xdel(lease.stream, lease.entryId)
+      .exec();
+  }
+
+  async requeue(lease: StreamQueueLease, job: Job, runAt?: number): Promise<void> {
+    if (runAt === undefined) {
+      await this.ackAndMove(lease, getStreamName(this.queueName, job.priority), "XADD", job);
+      return;
+    }
+    await this.ackAndMove(lease, getStreamDelayedSetName(this.queueName), "ZADD", job, runAt);
+  }
+
+  async deadLetter(
+    lease: StreamQueueLease,
+    job: Job,
+    details?: DeadLetterDetails
+  ): Promise<void> {
+    await this.ackAndMove(lease, this.deadLetterQueue, "LPUSH", markDeadLettered(job, details));
+  }
+
+  /** Resets the entry's idle time so other consumers do not claim it. */
+  async extendLease(lease: StreamQueueLease, visibilityTimeoutMs: number): Promise<void> {
+    await this.redis.xclaim(lease.stream, this.group, lease.workerId, 0, lease.entryId, "JUSTID");
+    lease.expiresAt = Date.now() + visibilityTimeoutMs;
+  }
+
+  /**
+   * Deletes the job's delayed copy and any stream entry not yet delivered to
+   * a consumer. Delivered entries are leased and are left to the cancel flag.
+   */
+  async remove(jobId: string): Promise<Job | null> {
+    await this.ensureGroups();
+    let removed: Job | null = null;
+    for (const stream of this.getStreams()) {
+      const entries = (await this.redis.xrange(stream, "-", "+")) as StreamEntry[];
+      for (const [entryId, fields] of entries) {
+        const job = parseWaitingJob(getEntryJob(fields));
+        if (job?.id !== jobId) {
+          continue;
+        }
+        const pending = (await this.redis.xpending(stream, this.group, entryId, entryId, 1)) as unknown[];
+        if (pending.length === 0 && (await this.redis.xdel(stream, entryId)) > 0) {
+          removed = job;
+        }
+      }
+    }
+    const delayedSet = getStreamDelayedSetName(this.queueName);
+    for (const raw of await this.redis.zrange(delayedSet, 0, -1)) {
+      const job = parseWaitingJob(raw);
+      if (job?.id === jobId && (await this.redis.zrem(delayedSet, raw)) > 0) {
+        removed = job;
+      }
+    }
+    return removed;
+  }
+
+  async depth(): Promise<QueueDepth> {
+    await this.ensureGroups();
+    const streams = this.getStreams();
+    const [lengths, pending, delayed, deadLetter] = await Promise.all([
+      Promise.all(streams.map((stream) => this.redis.xlen(stream))),
+      Promise.all(
+        streams.map(async (stream) => {
+          const summary = (await this.redis.xpending(stream, this.group)) as [number, ...unknown[]];
+          return Number(summary[0]);
+        })
+      ),
+      this.redis.zcard(getStreamDelayedSetName(this.queueName)),
+      this.redis.llen(this.deadLetterQueue)
+    ]);
+    const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+    return {
+      ready: Math.max(sum(lengths) - sum(pending), 0),
+      delayed,
+      inFlight: sum(pending),
+      deadLetter
+    };
+  }
+
+  async promoteDueJobs(batchSize = 100): Promise<number> {
+    const promoted = await this.redis.eval(
+      PROMOTE_DUE_STREAM_JOBS_SCRIPT,
+      4,
+      getStreamDelayedSetName(this.queueName),
+      ...this.getStreams(),
+      Date.now(),
+      batchSize
+    );
+    return Number(promoted);
+  }
+
+  /**
+   * Always 0: expired entries stay pending in the group and are claimed by
+   * the next `dequeue`, which keeps their delivery count intact.
+   */
+  async reapExpiredLeases(): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * Queues up the entries still pending for `workerId` from a previous run so
+   * the next dequeues hand them out before reading new ones.
+   */
+  async recover(workerId: string): Promise<number> {
+    await this.ensureGroups();
+    const recovered: Array<{ stream: string; entryId: string }> = [];
+    for (const stream of this.getStreams()) {
+      let start = "-";
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const pending = (await this.redis.xpending(
+          stream,
+          this.group,
+          start,
+          "+",
+          100,
+          workerId
+        )) as Array<[string, string, number, number]>;
+        for (const [entryId] of pending) {
+          recovered.push({ stream, entryId });
+        }
+        if (pending.length < 100) {
+          break;
+        }
+        start = `(${pending[pending.length - 1][0]}`;
+      }
+    }
+    this.recovered = recovered;
+    return recovered.length;
+  }
+
+  private async ackAndMove(
+    lease: StreamQueueLease,
+    destination: string,
+    command: "XADD" | "ZADD" | "LPUSH",
+    job: Job,
+    score = 0
+  ): Promise<void> {
+    await this.redis.eval(
+      ACK_AND_MOVE_SCRIPT,
+      2,
+      lease.stream,
+      destination,
+      this.group,
+      lease.entryId,
+      lease.workerId,
+      lease.deliveryCount,
+      command,
+      JSON.stringify(job),
+      score
+    );
+  }
+
+  private getStreams(): string[] {
+    return JOB_PRIORITIES.map((priority) => getStreamName(this.queueName, priority));
+  }
+
+  private async ensureGroups(): Promise<void> {
+    if (!this.groupsReady) {
+      this.groupsReady = Promise.all(
+        this.getStreams().map(async (stream) => {
+          try {
+            await this.redis.xgroup("CREATE", stream, this.group, "0", "MKSTREAM");
+          } catch (error) {
+            if (!(error instanceof Error) || !error.message.includes("BUSYGROUP")) {
+              throw error;
+            }
+          }
+        })
+      )
+        .then(() => undefined)
+        .catch((error) => {
+          this.groupsReady = null;
+          throw error;
+        });
+    }
+    await this.groupsReady;
+  }
+
+  private async takeRecovered(
+    workerId: string
+  ): Promise<{ stream: string; entry: StreamEntry; claimed: boolean } | null> {
+    while (this.recovered.length > 0) {
+      const { stream, entryId } = this.recovered.shift() as { stream: string; entryId: string };
+      const claimed = (await this.redis.xclaim(
+        stream,
+        this.group,
+        workerId,
+        0,
+        entryId
+      )) as Array<StreamEntry | null>;
+      const entry = claimed[0];
+      if (entry) {
+        return { stream, entry, claimed: true };
+      }
+      // Deleted while pending; drop it from the group.
+      await this.redis.xack(stream, this.group, entryId);
+    }
+    return null;
+  }
+
+  private async takeNext(
+    workerId: string,
+    order: JobPriority[],
+    options: QueueDequeueOptions
+  ): Promise<{ stream: string; entry: StreamEntry; claimed: boolean } | null> {
+    for (const priority of order) {
+      const stream = getStreamName(this.queueName, priority);
+      const reclaimed = (await this.redis.xautoclaim(
+        stream,
+        this.group,
+        workerId,
+        options.visibilityTimeoutMs,
+        this.claimCursors.get(stream) ?? "0-0",
+        "COUNT",
+        1
+      )) as [string, Array<StreamEntry | null>, ...unknown[]];
+      this.claimCursors.set(stream, reclaimed[0]);
+      const idle = reclaimed[1].find((entry): entry is StreamEntry => entry !== null);
+      if (idle) {
+        return { stream, entry: idle, claimed: true };
+      }
+      const read = (await this.redis.xreadgroup(
+        "GROUP",
+        this.group,
+        workerId,
+        "COUNT",
+        1,
+        "STREAMS",
+        stream,
+        ">"
+      )) as Array<[string, StreamEntry[]]> | null;
+      const entry = read?.[0]?.[1]?.[0];
+      if (entry) {
+        return { stream, entry, claimed: false };
+      }
+    }
+    return null;
+  }
+
+  private async toLease(
+    taken: { stream: string; entry: StreamEntry; claimed: boolean },
+    workerId: string,
+    options: QueueDequeueOptions
+  ): Promise<StreamQueueLease | null> {
+    const [entryId, fields] = taken.entry;
+    const raw = getEntryJob(fields);
+    let job: Job;
+    try {
+      job = parseJob(raw);
+    } catch (error) {
+      const entry = await quarantineRawJob(this.redis, this.queueName, raw, error, workerId);
+      await this.redis
+        .multi()
+        .xack(taken.stream, this.group, entryId)
+        .xdel(taken.stream, entryId)
+        .exec();
+      options.onQuarantine?.(entry);
+      return null;
+    }
+    return {
+      job,
+      stream: taken.stream,
+      entryId,
+      workerId,
+      deliveryCount: taken.claimed ? await this.getDeliveryCount(taken.stream, entryId) : 1,
+      expiresAt: Date.now() + options.visibilityTimeoutMs
+    };
+  }
+
+  private async getDeliveryCount(stream: string, entryId: string): Promise<number> {
+    const pending = (await this.redis.xpending(
+      stream,
+      this.group,
+      entryId,
+      entryId,
+      1
+    )) as Array<[string, string, number, number]>;
+    return pending[0] ? Number(pending[0][3]) : 1;
+  }
+}
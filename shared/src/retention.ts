@@ -0,0 +1,446 @@
+import { TERMINAL_JOB_STATES } from "./jobStatus";
+import {
+  PostgresPool,
+  queryPrepared,
+  QueryRetryOptions,
+  queryWithRetry,
+  withTransaction
+} from "./postgres";
+
+/** Days to keep history for, with overrides for individual job types. */
+export interface RetentionPolicy {
+  defaultDays: number;
+  byJobType: Record<string, number>;
+}
+
+export interface PruneOptions {
+  batchSize: number;
+  queryOptions: QueryRetryOptions;
+  dryRun?: boolean;
+  /** Pause between batches so other writers get the table back. */
+  batchDelayMs?: number;
+  signal?: AbortSignal;
+  now?: Date;
+}
+
+/** `jobType` is null for the default retention, which covers types without an override. */
+export interface PruneTableReport {
+  table: string;
+  jobType: string | null;
+  olderThan: string;
+  rows: number;
+}
+
+/** Row counts are deleted rows, or rows that would be deleted for a dry run. */
+export interface PruneReport {
+  dryRun: boolean;
+  tables: PruneTableReport[];
+  partitionsDropped: string[];
+}
+
+interface PruneTarget {
+  table: string;
+  key: string;
+  timestampColumn: string;
+  condition?: string;
+  byJobType: boolean;
+}
+
+type PruneScope = { jobType: string } | { excludedJobTypes: string[] } | null;
+
+export const PARTITIONED_RESULTS_TABLE = "job_results";
+
+const PARTITION_MONTHS_AHEAD = 2;
+const PARTITION_NAME_PATTERN = /_p(\d{4})(\d{2})$/;
+const DAY_MS = 86_400_000;
+
+// Deletes go through each table's key rather than ctid, which is not unique
+// across the partitions of a partitioned table.
+const PRUNE_TARGETS: PruneTarget[] = [
+  {
+    table: "job_results",
+    key: "job_id, job_created_at",
+    timestampColumn: "processed_at",
+    byJobType: true
+  },
+  {
+    table: "job_statuses",
+    key: "job_id",
+    timestampColumn: "updated_at",
+    condition: `state IN (${TERMINAL_JOB_STATES.map((state) => `'${state}'`).join(", ")})`,
+    byJobType: true
+  },
+  {
+    table: "queue_jobs",
+    key: "id",
+    timestampColumn: "created_at",
+    condition: "state IN ('dead', 'quarantined')",
+    byJobType: true
+  },
+  {
+    table: "job_outbox",
+    key: "id",
+    timestampColumn: "sent_at",
+    byJobType: false
+  },
+  {
+    table: "job_outbox",
+    key: "id",
+    timestampColumn: "dead_at",
+    condition: "sent_at IS NULL",
+    byJobType: false
+  },
+  { table: "job_batches", key: "batch_id", timestampColumn: "finished_at", byJobType: false },
+  // Coordination state of workers running without Redis. These rows already
+  // stopped counting at `expires_at`.
+  { table: "job_idempotency", key: "job_id", timestampColumn: "expires_at", byJobType: false },
+  { table: "job_cancellations", key: "job_id", timestampColumn: "expires_at", byJobType: false },
+  { table: "rate_limit_buckets", key: "key", timestampColumn: "expires_at", byJobType: false },
+  { table: "rate_limit_events", key: "id", timestampColumn: "expires_at", byJobType: false },
+  {
+    table: "concurrency_slots",
+    key: "key, holder",
+    timestampColumn: "expires_at",
+    byJobType: false
+  },
+  { table: "leader_leases", key: "key", timestampColumn: "expires_at", byJobType: false }
+];
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+function startOfMonth(date: Date, offsetMonths = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offsetMonths, 1));
+}
+
+function getPartitionName(table: string, month: Date): string {
+  return `${table}_p${month.getUTCFullYear()}${String(month.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+// One CREATE per month from the month of `from` through PARTITION_MONTHS_AHEAD
+// months after `now`.
+function buildMonthlyPartitions(
+  table: string,
+  from: Date,
+  now: Date
+): Array<{ name: string; text: string }> {
+  const partitions: Array<{ name: string; text: string }> = [];
+  const last = startOfMonth(now, PARTITION_MONTHS_AHEAD);
+  for (let month = startOfMonth(from); month <= last; month = startOfMonth(month, 1)) {
+    const name = getPartitionName(table, month);
+    partitions.push({
+      name,
+      text: `
+        CREATE TABLE IF NOT EXISTS ${name} PARTITION OF ${table}
+        FOR VALUES FROM ('${month.toISOString()}') TO ('${startOfMonth(month, 1).toISOString()}')
+      `
+    });
+  }
+  return partitions;
+}
+
+// `excludedPartitions` leaves out rows of partitions a dry run reports as
+// dropped, which a real run would no longer find.
+function buildFilter(
+  target: PruneTarget,
+  scope: PruneScope,
+  cutoff: Date,
+  excludedPartitions: string[] = []
+): { where: string; values: unknown[]; mode: string } {
+  const conditions = [`${target.timestampColumn} < $1`];
+  const values: unknown[] = [cutoff];
+  let mode = "all";
+  if (target.condition) {
+    conditions.push(target.condition);
+  }
+  if (scope && "jobType" in scope) {
+    conditions.push("job_type = $2");
+    values.push(scope.jobType);
+    mode = "type";
+  } else if (scope) {
+    conditions.push("NOT (job_type = ANY($2::text[]))");
+    values.push(scope.excludedJobTypes);
+    mode = "default";
+  }
+  if (excludedPartitions.length > 0) {
+    values.push(excludedPartitions);
+    conditions.push(
+      `tableoid NOT IN (SELECT oid FROM pg_class WHERE relname = ANY($${values.length}::text[]))`
+    );
+    mode = `${mode}-partial`;
+  }
+  return { where: conditions.join(" AND "), values, mode };
+}
+
+async function pruneTarget(
+  pool: PostgresPool,
+  target: PruneTarget,
+  scope: PruneScope,
+  cutoff: Date,
+  options: PruneOptions,
+  droppedPartitions: string[] = []
+): Promise<number> {
+  const { batchSize, queryOptions, dryRun = false, batchDelayMs = 100, signal } = options;
+  const { where, values, mode } = buildFilter(
+    target,
+    scope,
+    cutoff,
+    dryRun && target.table === PARTITIONED_RESULTS_TABLE ? droppedPartitions : []
+  );
+  if (dryRun) {
+    const result = await queryPrepared(
+      pool,
+      {
+        name: `prune-count-${target.table}-${target.timestampColumn}-${mode}`,
+        text: `SELECT COUNT(*)::int AS count FROM ${target.table} WHERE ${where}`,
+        values
+      },
+      queryOptions
+    );
+    return (result.rows[0] as { count: number }).count;
+  }
+
+  let deleted = 0;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    signal?.throwIfAborted();
+    const result = await queryPrepared(
+      pool,
+      {
+        name: `prune-delete-${target.table}-${target.timestampColumn}-${mode}`,
+        text: `
+          DELETE FROM ${target.table}
+          WHERE (${target.key}) IN (
+            SELECT ${target.key} FROM ${target.table}
+            WHERE ${where}
+            LIMIT $${values.length + 1}
+          )
+        `,
+        values: [...values, batchSize]
+      },
+      queryOptions
+    );
+    const count = result.rowCount ?? 0;
+    deleted += count;
+    if (count < batchSize) {
+      return deleted;
+    }
+    await sleep(batchDelayMs);
+  }
+}
+
+export async function isPartitionedTable(
+  pool: PostgresPool,
+  table: string,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "is-partitioned-table",
+      text: `
+        SELECT EXISTS (
+          SELECT 1 FROM pg_partitioned_table p
+          JOIN pg_class c ON c.oid = p.partrelid
+          WHERE c.relname = $1
+        ) AS partitioned
+      `,
+      values: [table]
+    },
+    queryOptions
+  );
+  return (result.rows[0] as { partitioned: boolean }).partitioned;
+}
+
+/**
+ * Creates the monthly partitions of `table` from the month of `from` through
+ * `PARTITION_MONTHS_AHEAD` months after `now`. Returns the partition names.
+ */
+export async function createMonthlyPartitions(
+  pool: PostgresPool,
+  table: string,
+  from: Date,
+  now: Date,
+  queryOptions: QueryRetryOptions
+): Promise<string[]> {
+  const partitions = buildMonthlyPartitions(table, from, now);
+  for (const { name, text } of partitions) {
+    await queryWithRetry(pool, { text }, queryOptions);
+  }
+  return partitions.map(({ name }) => name);
+}
+
+/**
+ * Drops monthly partitions of `table` that can no longer receive rows and
+ * whose newest `processed_at` is older than `cutoff`. Partitions follow job
+ * creation while retention follows processing, so a month is only dropped
+ * once every row in it has expired; pass the longest retention in the policy
+ * so per-type overrides are honoured too.
+ */
+export async function dropExpiredPartitions(
+  pool: PostgresPool,
+  table: string,
+  cutoff: Date,
+  options: Pick<PruneOptions, "queryOptions" | "dryRun">
+): Promise<string[]> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "list-partitions",
+      text: `
+        SELECT child.relname AS name
+        FROM pg_inherits i
+        JOIN pg_class child ON child.oid = i.inhrelid
+        JOIN pg_class parent ON parent.oid = i.inhparent
+        WHERE parent.relname = $1
+        ORDER BY child.relname
+      `,
+      values: [table]
+    },
+    options.queryOptions
+  );
+  const expired: string[] = [];
+  for (const { name } of result.rows as Array<{ name: string }>) {
+    const match = PARTITION_NAME_PATTERN.exec(name);
+    if (!match) {
+      continue;
+    }
+    const month = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+    if (startOfMonth(month, 1) > cutoff) {
+      continue;
+    }
+    const newest = await queryWithRetry(
+      pool,
+      { text: `SELECT MAX(processed_at) AS newest FROM ${name}` },
+      options.queryOptions
+    );
+    const [{ newest: newestProcessedAt }] = newest.rows as Array<{ newest: Date | null }>;
+    if (newestProcessedAt !== null && new Date(newestProcessedAt) >= cutoff) {
+      continue;
+    }
+    if (!options.dryRun) {
+      await queryWithRetry(pool, { text: `DROP TABLE IF EXISTS ${name}` }, options.queryOptions);
+    }
+    expired.push(name);
+  }
+  return expired;
+}
+
+/**
+ * Deletes history older than the retention policy from `job_results`,
+ * terminal `job_statuses`, dead or quarantined `queue_jobs`, sent or dead
+ * `job_outbox` rows, finished batches and expired coordination rows,
+ * `batchSize` rows per statement so no delete holds its locks for long. When
+ * `job_results` is partitioned, upcoming monthly partitions are created and
+ * months past the longest retention are dropped whole first. With `dryRun`
+ * nothing is changed and the report counts what would go, leaving out the
+ * months it would drop.
+ */
+export async function pruneHistory(
+  pool: PostgresPool,
+  policy: RetentionPolicy,
+  options: PruneOptions
+): Promise<PruneReport> {
+  const { queryOptions, dryRun = false } = options;
+  const now = options.now ?? new Date();
+  const report: PruneReport = { dryRun, tables: [], partitionsDropped: [] };
+
+  if (await isPartitionedTable(pool, PARTITIONED_RESULTS_TABLE, queryOptions)) {
+    if (!dryRun) {
+      await createMonthlyPartitions(pool, PARTITIONED_RESULTS_TABLE, now, now, queryOptions);
+    }
+    const longestDays = Math.max(policy.defaultDays, ...Object.values(policy.byJobType));
+    report.partitionsDropped = await dropExpiredPartitions(
+      pool,
+      PARTITIONED_RESULTS_TABLE,
+      daysBefore(now, longestDays),
+      { queryOptions, dryRun }
+    );
+  }
+
+  const overriddenTypes = Object.keys(policy.byJobType);
+  for (const target of PRUNE_TARGETS) {
+    const scopes: Array<{ scope: PruneScope; jobType: string | null; days: number }> = [];
+    if (target.byJobType) {
+      for (const jobType of overriddenTypes) {
+        scopes.push({ scope: { jobType }, jobType, days: policy.byJobType[jobType] });
+      }
+      scopes.push({
+        scope: { excludedJobTypes: overriddenTypes },
+        jobType: null,
+        days: policy.defaultDays
+      });
+    } else {
+      scopes.push({ scope: null, jobType: null, days: policy.defaultDays });
+    }
+    for (const { scope, jobType, days } of scopes) {
+      const cutoff = daysBefore(now, days);
+      const rows = await pruneTarget(
+        pool,
+        target,
+        scope,
+        cutoff,
+        options,
+        report.partitionsDropped
+      );
+      report.tables.push({ table: target.table, jobType, olderThan: cutoff.toISOString(), rows });
+    }
+  }
+  return report;
+}
+
+/**
+ * Rebuilds `job_results` as a table partitioned by month on `job_created_at`,
+ * with a default partition for rows outside every month, copying the existing
+ * rows over in one transaction. The table is locked while this runs, so run
+ * it in a maintenance window.
+ */
+export async function partitionJobResults(
+  pool: PostgresPool,
+  queryOptions: QueryRetryOptions,
+  now = new Date()
+): Promise<string[]> {
+  if (await isPartitionedTable(pool, PARTITIONED_RESULTS_TABLE, queryOptions)) {
+    throw new Error(`${PARTITIONED_RESULTS_TABLE} is already partitioned`);
+  }
+  return withTransaction(
+    pool,
+    async (client) => {
+      await client.query("ALTER TABLE job_results RENAME TO job_results_unpartitioned");
+      await client.query(
+        "ALTER TABLE job_results_unpartitioned RENAME CONSTRAINT job_results_pkey TO job_results_unpartitioned_pkey"
+      );
+      await client.query(
+        "ALTER INDEX job_results_type_processed_idx RENAME TO job_results_unpartitioned_type_processed_idx"
+      );
+      await client.query(`
+        CREATE TABLE job_results (LIKE job_results_unpartitioned INCLUDING DEFAULTS)
+        PARTITION BY RANGE (job_created_at)
+      `);
+      await client.query("CREATE TABLE job_results_default PARTITION OF job_results DEFAULT");
+
+      const oldest = await client.query(
+        "SELECT MIN(job_created_at) AS oldest FROM job_results_unpartitioned"
+      );
+      const from = (oldest.rows[0] as { oldest: Date | null }).oldest ?? now;
+      const partitions = buildMonthlyPartitions(PARTITIONED_RESULTS_TABLE, from, now);
+      for (const { text } of partitions) {
+        await client.query(text);
+      }
+
+      await client.query("INSERT INTO job_results SELECT * FROM job_results_unpartitioned");
+      await client.query("DROP TABLE job_results_unpartitioned");
+      await client.query("ALTER TABLE job_results ADD PRIMARY KEY (job_id, job_created_at)");
+      await client.query(
+        "CREATE INDEX job_results_type_processed_idx ON job_results (job_type, processed_at)"
+      );
+      return partitions.map(({ name }) => name);
+    },
+    queryOptions
+  );
+}
@@ -0,0 +1,69 @@
+import { Job } from "./queue";
+
+export type BackoffStrategy = "fixed" | "exponential" | "decorrelated-jitter";
+
+export const BACKOFF_STRATEGIES: readonly BackoffStrategy[] = [
+  "fixed",
+  "exponential",
+  "decorrelated-jitter"
+];
+
+/**
+ * How a failed job is retried. `maxAttempts` only ever lowers the job's own
+ * `maxAttempts`, so producers can ask for fewer attempts but not more.
+ */
+export interface RetryPolicy {
+  strategy: BackoffStrategy;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix (bad input, a
+ * missing record, a 4xx from an API). The job goes straight to the
+ * dead-letter queue.
+ */
+export class NonRetryableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "NonRetryableError";
+  }
+}
+
+export function isNonRetryableError(error: unknown): boolean {
+  return error instanceof NonRetryableError;
+}
+
+export function getMaxAttempts(policy: RetryPolicy, job: Job): number {
+  return Math.min(job.maxAttempts, policy.maxAttempts ?? Infinity);
+}
+
+/**
+ * Delay before retry number `attempts` (1 after the first failure).
+ * Decorrelated jitter picks a random delay between the base and three times
+ * the previous delay, which spreads out retries of jobs that failed together.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempts: number,
+  previousDelayMs?: number,
+  random: () => number = Math.random
+): number {
+  const { baseDelayMs, maxDelayMs } = policy;
+  let delay: number;
+  switch (policy.strategy) {
+    case "fixed":
+      delay = baseDelayMs;
+      break;
+    case "exponential":
+      delay = baseDelayMs * 2 ** attempts;
+      break;
+    case "decorrelated-jitter": {
+      const upper = Math.max((previousDelayMs ?? baseDelayMs) * 3, baseDelayMs);
+      delay = baseDelayMs + random() * (upper - baseDelayMs);
+      break;
+    }
+  }
+  return Math.round(Math.min(delay, maxDelayMs));
+}
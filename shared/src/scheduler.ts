@@ -0,0 +1,332 @@
+import { CronSchedule, getNextCronTime, parseCronExpression } from "./cron";
+import {
+  acquireLeaderLease,
+  acquirePostgresLeaderLease,
+  releaseLeaderLease,
+  releasePostgresLeaderLease
+} from "./leaderLease";
+import { Logger } from "./logger";
+import { PostgresPool, queryPrepared, QueryRetryOptions } from "./postgres";
+import { createJob, enqueueJob, JobPriority } from "./queue";
+import { QueueBackend } from "./queueBackend";
+import { RedisClient } from "./redis";
+
+/**
+ * What to do with occurrences that were missed (for example while no worker
+ * was running): `skip` drops them, `latest` fires only the most recent one and
+ * `all` fires each of them, up to `maxCatchUp`.
+ */
+export type CatchUpPolicy = "skip" | "latest" | "all";
+
+export const CATCH_UP_POLICIES: readonly CatchUpPolicy[] = ["skip", "latest", "all"];
+
+export interface ScheduledJobDefinition {
+  name: string;
+  cron: string;
+  type: string;
+  payload?: Record<string, unknown> | ((firedAt: Date) => Record<string, unknown>);
+  priority?: JobPriority;
+  maxAttempts?: number;
+  catchUp?: CatchUpPolicy;
+}
+
+/**
+ * Where the scheduler keeps its leader lease and each schedule's last run
+ * (epoch ms). `key` is the scheduler's key prefix plus a suffix.
+ */
+export interface SchedulerStore {
+  acquireLeaderLease(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLeaderLease(key: string, owner: string): Promise<boolean>;
+  getLastRun(key: string, name: string): Promise<number | null>;
+  setLastRun(key: string, name: string, at: number): Promise<void>;
+}
+
+export function createRedisSchedulerStore(redis: RedisClient): SchedulerStore {
+  return {
+    acquireLeaderLease: (key, owner, ttlMs) => acquireLeaderLease(redis, key, owner, ttlMs),
+    releaseLeaderLease: (key, owner) => releaseLeaderLease(redis, key, owner),
+    getLastRun: async (key, name) => {
+      const raw = await redis.hget(key, name);
+      return raw ? Number(raw) : null;
+    },
+    setLastRun: async (key, name, at) => {
+      await redis.hset(key, name, String(at));
+    }
+  };
+}
+
+/** Keeps the lease in `leader_leases` and last runs in `scheduler_runs`. */
+export function createPostgresSchedulerStore(
+  pool: PostgresPool,
+  queryOptions: QueryRetryOptions
+): SchedulerStore {
+  return {
+    acquireLeaderLease: (key, owner, ttlMs) =>
+      acquirePostgresLeaderLease(pool, key, owner, ttlMs, queryOptions),
+    releaseLeaderLease: (key, owner) => releasePostgresLeaderLease(pool, key, owner, queryOptions),
+    getLastRun: async (key, name) => {
+      const result = await queryPrepared(
+        pool,
+        {
+          name: "select-scheduler-run",
+          text: "SELECT last_run_at FROM scheduler_runs WHERE key = $1 AND name = $2",
+          values: [key, name]
+        },
+        queryOptions
+      );
+      const [row] = result.rows as Array<{ last_run_at: Date }>;
+      return row ? new Date(row.last_run_at).getTime() : null;
+    },
+    setLastRun: async (key, name, at) => {
+      await queryPrepared(
+        pool,
+        {
+          name: "upsert-scheduler-run",
+          text: `
+            INSERT INTO scheduler_runs (key, name, last_run_at)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (key, name) DO UPDATE SET last_run_at = EXCLUDED.last_run_at
+          `,
+          values: [key, name, new Date(at)]
+        },
+        queryOptions
+      );
+    }
+  };
+}
+
+export interface CronSchedulerOptions {
+  /** Needed unless both `store` and `backend` are given. */
+  redis?: RedisClient;
+  queueName: string;
+  ownerId: string;
+  logger: Logger;
+  keyPrefix?: string;
+  tickIntervalMs?: number;
+  leaseTtlMs?: number;
+  misfireGraceMs?: number;
+  defaultCatchUp?: CatchUpPolicy;
+  maxCatchUp?: number;
+  defaultMaxAttempts?: number;
+  /** Where fired jobs go; defaults to the Redis list `queueName`. */
+  backend?: QueueBackend;
+  /** Where the lease and last runs live; defaults to Redis. */
+  store?: SchedulerStore;
+}
+
+interface RegisteredSchedule {
+  definition: ScheduledJobDefinition;
+  schedule: CronSchedule;
+}
+
+/**
+ * Turns registered cron expressions into queued jobs. Every instance runs the
+ * scheduler, but only the holder of the leader lease fires occurrences,
+ * and each occurrence gets a deterministic job id so a leadership hand-over
+ * mid-tick cannot run it twice.
+ */
+export class CronScheduler {
+  private schedules = new Map<string, RegisteredSchedule>();
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<void> | null = null;
+  private leader = false;
+  private readonly store: SchedulerStore;
+  private readonly options: Required<
+    Omit<CronSchedulerOptions, "keyPrefix" | "backend" | "redis" | "store">
+  > & {
+    keyPrefix: string;
+    backend?: QueueBackend;
+    redis?: RedisClient;
+  };
+
+  constructor(options: CronSchedulerOptions) {
+    if (!options.redis && !(options.store && options.backend)) {
+      throw new Error("CronScheduler needs a Redis client, or both a store and a backend");
+    }
+    this.store = options.store ?? createRedisSchedulerStore(options.redis as RedisClient);
+    const tickIntervalMs = options.tickIntervalMs ?? 5000;
+    this.options = {
+      keyPrefix: options.keyPrefix ?? `${options.queueName}:scheduler`,
+      tickIntervalMs,
+      leaseTtlMs: options.leaseTtlMs ?? tickIntervalMs * 6,
+      misfireGraceMs: options.misfireGraceMs ?? tickIntervalMs * 2,
+      defaultCatchUp: options.defaultCatchUp ?? "latest",
+      maxCatchUp: options.maxCatchUp ?? 100,
+      defaultMaxAttempts: options.defaultMaxAttempts ?? 5,
+      redis: options.redis,
+      queueName: options.queueName,
+      ownerId: options.ownerId,
+      logger: options.logger,
+      backend: options.backend
+    };
+  }
+
+  register(definition: ScheduledJobDefinition): void {
+    if (this.schedules.has(definition.name)) {
+      throw new Error(`Scheduled job already registered: ${definition.name}`);
+    }
+    this.schedules.set(definition.name, {
+      definition,
+      schedule: parseCronExpression(definition.cron)
+    });
+  }
+
+  names(): string[] {
+    return [...this.schedules.keys()];
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.tickIntervalMs);
+    void this.tick();
+  }
+
+  /**
+   * Stops ticking, waits for a tick in progress and then gives up the lease,
+   * so no occurrence is fired after another instance has taken over.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.current;
+    if (this.leader) {
+      this.leader = false;
+      await this.store.releaseLeaderLease(this.getLeaderKey(), this.options.ownerId);
+    }
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    if (!this.current) {
+      this.current = this.runTick(now).finally(() => {
+        this.current = null;
+      });
+    }
+    await this.current;
+  }
+
+  private async runTick(now: Date): Promise<void> {
+    const { logger } = this.options;
+    try {
+      const leader = await this.store.acquireLeaderLease(
+        this.getLeaderKey(),
+        this.options.ownerId,
+        this.options.leaseTtlMs
+      );
+      if (leader !== this.leader) {
+        logger.info(
+          `event=${leader ? "scheduler_leader_acquired" : "scheduler_leader_lost"} owner=${this.options.ownerId}`
+        );
+        this.leader = leader;
+      }
+      if (!leader) {
+        return;
+      }
+      for (const registered of this.schedules.values()) {
+        try {
+          await this.fireDue(registered, now);
+        } catch (error) {
+          logger.error(
+            `event=scheduled_job_failed name=${registered.definition.name} message="${error instanceof Error ? error.message : String(error)}"`
+          );
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `event=scheduler_tick_failed message="${error instanceof Error ? error.message : String(error)}"`
+      );
+    }
+  }
+
+  private getLeaderKey(): string {
+    return `${this.options.keyPrefix}:leader`;
+  }
+
+  private getLastRunKey(): string {
+    return `${this.options.keyPrefix}:last-run`;
+  }
+
+  private selectOccurrences(
+    registered: RegisteredSchedule,
+    lastRun: Date,
+    now: Date
+  ): { fire: Date[]; last: Date | null } {
+    const policy = registered.definition.catchUp ?? this.options.defaultCatchUp;
+    const graceStart = now.getTime() - this.options.misfireGraceMs;
+    const fire: Date[] = [];
+    let latestMissed: Date | null = null;
+    let last: Date | null = null;
+
+    let occurrence = getNextCronTime(registered.schedule, lastRun);
+    while (occurrence.getTime() <= now.getTime()) {
+      last = occurrence;
+      if (occurrence.getTime() >= graceStart) {
+        fire.push(occurrence);
+      } else if (policy === "all") {
+        fire.push(occurrence);
+        if (fire.length >= this.options.maxCatchUp) {
+          // Resume from here on the next tick instead of building an
+          // unbounded backlog in one go.
+          return { fire, last };
+        }
+      } else {
+        latestMissed = occurrence;
+      }
+      occurrence = getNextCronTime(registered.schedule, occurrence);
+    }
+
+    if (policy === "latest" && latestMissed && fire.length === 0) {
+      fire.push(latestMissed);
+    }
+    return { fire, last };
+  }
+
+  private async fireDue(registered: RegisteredSchedule, now: Date): Promise<void> {
+    const { redis, logger } = this.options;
+    const { definition } = registered;
+    const lastRun = await this.store.getLastRun(this.getLastRunKey(), definition.name);
+    if (lastRun === null) {
+      // First time this schedule is seen: start counting from now rather than
+      // treating every past occurrence as missed.
+      await this.store.setLastRun(this.getLastRunKey(), definition.name, now.getTime());
+      return;
+    }
+
+    const { fire, last } = this.selectOccurrences(registered, new Date(lastRun), now);
+    if (!last) {
+      return;
+    }
+
+    for (const firedAt of fire) {
+      const payload =
+        typeof definition.payload === "function"
+          ? definition.payload(firedAt)
+          : definition.payload ?? {};
+      const job = createJob(
+        `cron:${definition.name}:${firedAt.getTime()}`,
+        definition.type,
+        payload,
+        definition.maxAttempts ?? this.options.defaultMaxAttempts
+      );
+      const enqueueOptions = definition.priority ? { priority: definition.priority } : undefined;
+      if (this.options.backend) {
+        await this.options.backend.enqueue(job, enqueueOptions);
+      } else if (redis) {
+        await enqueueJob(redis, this.options.queueName, job, enqueueOptions);
+      }
+      logger.info(
+        `event=scheduled_job_fired name=${definition.name} job_id=${job.id} fired_at=${firedAt.toISOString()}`
+      );
+    }
+    await this.store.setLastRun(this.getLastRunKey(), definition.name, last.getTime());
+  }
+}
@@ -0,0 +1,540 @@
+import { assertValidJobPayload } from "./jobSchema";
+import { buildInitialJobStatus, DEFAULT_JOB_STATUS_TTL_SECONDS, getJobStatusKey } from "./jobStatus";
+import { PostgresPool, queryPrepared, QueryRetryOptions, withTransaction } from "./postgres";
+import { enqueuePostgresJob } from "./postgresQueueBackend";
+import { enqueueJob, EnqueueOptions, getPriorityQueueName, Job, JobPriority } from "./queue";
+import { QueueBackend } from "./queueBackend";
+import { RedisClient } from "./redis";
+
+export type BatchOutcome = "completed" | "failed";
+
+export interface BatchStatus {
+  batchId: string;
+  total: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  done: boolean;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export interface EnqueueBatchOptions {
+  batchId: string;
+  onComplete?: Job<object>;
+  onCompletePriority?: JobPriority;
+  ttlSeconds?: number;
+  priority?: JobPriority;
+}
+
+export interface RecordBatchOutcomeOptions {
+  /**
+   * Backend that queues the completion job of a batch created through a
+   * backend. Batches created with a queue name push it onto that Redis list.
+   */
+  backend?: QueueBackend;
+}
+
+const DEFAULT_BATCH_TTL_SECONDS = 7 * 86400;
+
+// KEYS: batch hash, completion job status key. ARGV: ttl seconds, completion
+// job status JSON (empty without one), then the hash's field/value pairs.
+// Creating the hash only when it is missing makes a reused batch id fail
+// without touching the existing batch.
+const CREATE_BATCH_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  return 0
+end
+local fields = {}
+for i = 3, #ARGV do
+  fields[#fields + 1] = ARGV[i]
+end
+redis.call("HSET", KEYS[1], unpack(fields))
+redis.call("EXPIRE", KEYS[1], tonumber(ARGV[1]))
+if ARGV[2] ~= "" then
+  redis.call("SET", KEYS[2], ARGV[2], "EX", tonumber(ARGV[1]))
+end
+return 1
+`;
+
+// KEYS: batch hash, finished-member set, completion job list, completion job
+// status key. ARGV: job id, outcome field, ttl seconds, finish timestamp,
+// fallback "queued" status JSON for when the stored status has expired.
+// The member set makes redelivered outcomes no-ops, and HSETNX on finishedAt
+// ensures the completion job is pushed exactly once. Batches without an
+// `onCompleteQueue` leave queueing the completion job to the caller.
+const RECORD_BATCH_OUTCOME_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return -1
+end
+if redis.call("SADD", KEYS[2], ARGV[1]) == 0 then
+  return 0
+end
+redis.call("EXPIRE", KEYS[2], tonumber(ARGV[3]))
+redis.call("HINCRBY", KEYS[1], ARGV[2], 1)
+local total = tonumber(redis.call("HGET", KEYS[1], "total"))
+local finished = tonumber(redis.call("HGET", KEYS[1], "completed")) + tonumber(redis.call("HGET", KEYS[1], "failed"))
+if finished >= total and redis.call("HSETNX", KEYS[1], "finishedAt", ARGV[4]) == 1 then
+  local onComplete = redis.call("HGET", KEYS[1], "onComplete")
+  if onComplete and redis.call("HEXISTS", KEYS[1], "onCompleteQueue") == 1 then
+    redis.call("LPUSH", KEYS[3], onComplete)
+    local status = ARGV[5]
+    local current = redis.call("GET", KEYS[4])
+    if current then
+      local ok, decoded = pcall(cjson.decode, current)
+      if ok and type(decoded) == "table" and type(decoded.history) == "table" then
+        decoded.state = "queued"
+        decoded.updatedAt = ARGV[4]
+        table.insert(decoded.history, { state = "queued", at = ARGV[4] })
+        status = cjson.encode(decoded)
+      end
+    end
+    redis.call("SET", KEYS[4], status, "EX", tonumber(ARGV[3]))
+  end
+  return 2
+end
+return 1
+`;
+
+export function getBatchKey(batchId: string): string {
+  return `batch:${batchId}`;
+}
+
+function getBatchMembersKey(batchId: string): string {
+  return `batch:${batchId}:finished`;
+}
+
+// `queue` is either a Redis list name or the backend the worker consumes, so
+// producers reach whichever queue layout the worker reads.
+async function enqueueOn(
+  redis: RedisClient,
+  queue: string | QueueBackend,
+  job: Job<object>,
+  options?: EnqueueOptions
+): Promise<string> {
+  return typeof queue === "string"
+    ? enqueueJob(redis, queue, job, options)
+    : queue.enqueue(job, options);
+}
+
+/**
+ * Enqueues `jobs` so each one runs after the previous one succeeds. Every
+ * follow-up job receives its predecessor's id and result in `job.parent`; a
+ * failure that ends in the dead-letter queue stops the chain. `queue` is a
+ * Redis list name or a `QueueBackend`. Returns the id of the first job.
+ */
+export async function enqueueChain(
+  redis: RedisClient,
+  queue: string | QueueBackend,
+  jobs: Job<object>[],
+  options?: EnqueueOptions
+): Promise<string> {
+  if (jobs.length === 0) {
+    throw new Error("A job chain needs at least one job");
+  }
+  for (const job of jobs) {
+    assertValidJobPayload(job.type, job.payload);
+  }
+  let continuation: Job | undefined;
+  for (let index = jobs.length - 1; index > 0; index -= 1) {
+    continuation = {
+      ...(jobs[index] as Job),
+      ...(continuation ? { continuation } : {})
+    };
+  }
+  return enqueueOn(
+    redis,
+    queue,
+    { ...jobs[0], ...(continuation ? { continuation } : {}) },
+    options
+  );
+}
+
+/**
+ * Builds the next job of a chain after `job` succeeded with `result`, or
+ * returns null when `job` ends its chain.
+ */
+export function buildContinuationJob(job: Job, result: unknown): Job | null {
+  if (!job.continuation) {
+    return null;
+  }
+  return {
+    ...job.continuation,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    parent: { id: job.id, result: result ?? null }
+  };
+}
+
+/**
+ * Enqueues the next job of a chain after `job` succeeded with `result`.
+ */
+export async function enqueueContinuation(
+  redis: RedisClient,
+  queue: string | QueueBackend,
+  job: Job,
+  result: unknown
+): Promise<string | null> {
+  const next = buildContinuationJob(job, result);
+  if (!next) {
+    return null;
+  }
+  return enqueueOn(redis, queue, next, next.priority ? { priority: next.priority } : undefined);
+}
+
+/**
+ * Enqueues every job with a shared batch id and records the batch's progress
+ * counters. Once all members have completed or been dead-lettered, the
+ * optional `onComplete` job is queued. With a `QueueBackend` as `queue`, the
+ * members go through it and the worker's `recordBatchOutcome` call queues
+ * the completion job through its backend. Returns the batch id.
+ */
+export async function enqueueBatch(
+  redis: RedisClient,
+  queue: string | QueueBackend,
+  jobs: Job<object>[],
+  options: EnqueueBatchOptions
+): Promise<string> {
+  if (jobs.length === 0) {
+    throw new Error("A batch needs at least one job");
+  }
+  for (const job of jobs) {
+    assertValidJobPayload(job.type, job.payload);
+  }
+  if (options.onComplete) {
+    assertValidJobPayload(options.onComplete.type, options.onComplete.payload);
+  }
+
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_BATCH_TTL_SECONDS;
+  const batchKey = getBatchKey(options.batchId);
+  const fields: Record<string, string> = {
+    total: String(jobs.length),
+    completed: "0",
+    failed: "0",
+    createdAt: new Date().toISOString()
+  };
+  // The completion job waits on the batch, so it starts out "scheduled" and
+  // becomes "queued" when the last member finishes.
+  let statusKey = batchKey;
+  let status = "";
+  if (options.onComplete) {
+    const onCompletePriority = options.onCompletePriority ?? options.onComplete.priority;
+    const completionJob = {
+      ...options.onComplete,
+      completesBatch: options.batchId,
+      ...(onCompletePriority ? { priority: onCompletePriority } : {})
+    };
+    fields.onComplete = JSON.stringify(completionJob);
+    if (typeof queue === "string") {
+      fields.onCompleteQueue = getPriorityQueueName(queue, onCompletePriority);
+    }
+    statusKey = getJobStatusKey(completionJob.id);
+    status = JSON.stringify(buildInitialJobStatus(completionJob, "scheduled"));
+  }
+  const created = await redis.eval(
+    CREATE_BATCH_SCRIPT,
+    2,
+    batchKey,
+    statusKey,
+    ttlSeconds,
+    status,
+    ...Object.entries(fields).flat()
+  );
+  if (Number(created) === 0) {
+    throw new Error(`Batch already exists: ${options.batchId}`);
+  }
+
+  for (const job of jobs) {
+    await enqueueOn(
+      redis,
+      queue,
+      { ...job, batchId: options.batchId },
+      {
+        ...(options.priority ? { priority: options.priority } : {}),
+        statusTtlSeconds: Math.min(ttlSeconds, DEFAULT_JOB_STATUS_TTL_SECONDS)
+      }
+    );
+  }
+  return options.batchId;
+}
+
+/**
+ * Records a member's final outcome. Safe to call more than once per job.
+ * Returns true when this call finished the batch.
+ *
+ * A completion job queued through `options.backend` is enqueued after the
+ * batch is marked finished, and `onCompleteQueuedAt` is set once it is. A
+ * caller that crashes in between leaves that field unset, so the member's
+ * redelivery enqueues it then; the job's fixed id lets idempotency drop a
+ * second copy.
+ */
+export async function recordBatchOutcome(
+  redis: RedisClient,
+  batchId: string,
+  jobId: string,
+  outcome: BatchOutcome,
+  options: RecordBatchOutcomeOptions = {}
+): Promise<boolean> {
+  const batchKey = getBatchKey(batchId);
+  const [onCompleteQueue, onComplete] = await redis.hmget(
+    batchKey,
+    "onCompleteQueue",
+    "onComplete"
+  );
+  const completionJob = onComplete ? (JSON.parse(onComplete) as Job) : null;
+  const ttlSeconds = await redis.ttl(batchKey);
+  // Without a completion job the last two keys are never written; any key
+  // will do.
+  const result = await redis.eval(
+    RECORD_BATCH_OUTCOME_SCRIPT,
+    4,
+    batchKey,
+    getBatchMembersKey(batchId),
+    onCompleteQueue ?? batchKey,
+    completionJob ? getJobStatusKey(completionJob.id) : batchKey,
+    jobId,
+    outcome,
+    ttlSeconds > 0 ? ttlSeconds : DEFAULT_BATCH_TTL_SECONDS,
+    new Date().toISOString(),
+    completionJob ? JSON.stringify(buildInitialJobStatus(completionJob, "queued")) : ""
+  );
+  if (completionJob && !onCompleteQueue) {
+    await enqueueCompletionJob(redis, batchKey, completionJob, ttlSeconds, options.backend);
+  }
+  return Number(result) === 2;
+}
+
+async function enqueueCompletionJob(
+  redis: RedisClient,
+  batchKey: string,
+  completionJob: Job,
+  ttlSeconds: number,
+  backend: QueueBackend | undefined
+): Promise<void> {
+  const [finishedAt, queuedAt] = await redis.hmget(batchKey, "finishedAt", "onCompleteQueuedAt");
+  if (!finishedAt || queuedAt) {
+    return;
+  }
+  if (!backend) {
+    throw new Error(
+      `Batch ${completionJob.completesBatch} was created through a queue backend; pass it to recordBatchOutcome`
+    );
+  }
+  await backend.enqueue(completionJob, {
+    ...(completionJob.priority ? { priority: completionJob.priority } : {}),
+    statusTtlSeconds: Math.min(
+      ttlSeconds > 0 ? ttlSeconds : DEFAULT_BATCH_TTL_SECONDS,
+      DEFAULT_JOB_STATUS_TTL_SECONDS
+    )
+  });
+  await redis.hset(batchKey, "onCompleteQueuedAt", new Date().toISOString());
+}
+
+export async function getBatchStatus(
+  redis: RedisClient,
+  batchId: string
+): Promise<BatchStatus | null> {
+  const fields = await redis.hgetall(getBatchKey(batchId));
+  if (!fields.total) {
+    return null;
+  }
+  const total = Number(fields.total);
+  const completed = Number(fields.completed ?? 0);
+  const failed = Number(fields.failed ?? 0);
+  return {
+    batchId,
+    total,
+    completed,
+    failed,
+    pending: Math.max(total - completed - failed, 0),
+    done: Boolean(fields.finishedAt),
+    createdAt: fields.createdAt,
+    ...(fields.finishedAt ? { finishedAt: fields.finishedAt } : {})
+  };
+}
+
+interface BatchRow {
+  batch_id: string;
+  queue_name: string;
+  total: number;
+  completed: number;
+  failed: number;
+  on_complete: Job | null;
+  created_at: Date;
+  finished_at: Date | null;
+}
+
+/**
+ * `enqueueBatch` for the Postgres backend without Redis: the batch row, the
+ * completion job's "scheduled" status and every member commit together in
+ * one transaction. The batch lives in `job_batches` until the prune-history
+ * job removes it; `ttlSeconds` does not apply.
+ */
+export async function enqueuePostgresBatch(
+  pool: PostgresPool,
+  queueName: string,
+  jobs: Job<object>[],
+  options: Omit<EnqueueBatchOptions, "ttlSeconds">,
+  queryOptions: QueryRetryOptions
+): Promise<string> {
+  if (jobs.length === 0) {
+    throw new Error("A batch needs at least one job");
+  }
+  for (const job of jobs) {
+    assertValidJobPayload(job.type, job.payload);
+  }
+  if (options.onComplete) {
+    assertValidJobPayload(options.onComplete.type, options.onComplete.payload);
+  }
+  const onCompletePriority = options.onCompletePriority ?? options.onComplete?.priority;
+  const completionJob = options.onComplete
+    ? {
+        ...options.onComplete,
+        completesBatch: options.batchId,
+        ...(onCompletePriority ? { priority: onCompletePriority } : {})
+      }
+    : null;
+
+  await withTransaction(
+    pool,
+    async (client) => {
+      const created = await client.query({
+        name: "insert-job-batch",
+        text: `
+          INSERT INTO job_batches (batch_id, queue_name, total, on_complete)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (batch_id) DO NOTHING
+        `,
+        values: [
+          options.batchId,
+          queueName,
+          jobs.length,
+          completionJob ? JSON.stringify(completionJob) : null
+        ]
+      });
+      if (created.rowCount === 0) {
+        throw new Error(`Batch already exists: ${options.batchId}`);
+      }
+      if (completionJob) {
+        await client.query({
+          name: "insert-scheduled-job-status",
+          text: `
+            INSERT INTO job_statuses (job_id, job_type, state, attempts, created_at, updated_at)
+            VALUES ($1, $2, 'scheduled', $3, $4, NOW())
+            ON CONFLICT (job_id) DO UPDATE SET
+              job_type = EXCLUDED.job_type,
+              state = EXCLUDED.state,
+              attempts = EXCLUDED.attempts,
+              updated_at = EXCLUDED.updated_at
+          `,
+          values: [completionJob.id, completionJob.type, completionJob.attempts, completionJob.createdAt]
+        });
+      }
+      for (const job of jobs) {
+        await enqueuePostgresJob(
+          client,
+          queueName,
+          { ...job, batchId: options.batchId },
+          options.priority ? { priority: options.priority } : undefined
+        );
+      }
+    },
+    queryOptions
+  );
+  return options.batchId;
+}
+
+/**
+ * `recordBatchOutcome` for batches created with `enqueuePostgresBatch`. The
+ * outcome, the counters and the completion job are written in one
+ * transaction, and the batch row's lock orders concurrent members, so the
+ * completion job is queued exactly once. Returns true when this call
+ * finished the batch.
+ */
+export async function recordPostgresBatchOutcome(
+  pool: PostgresPool,
+  batchId: string,
+  jobId: string,
+  outcome: BatchOutcome,
+  queryOptions: QueryRetryOptions
+): Promise<boolean> {
+  return withTransaction(
+    pool,
+    async (client) => {
+      const recorded = await client.query({
+        name: "insert-job-batch-outcome",
+        text: `
+          INSERT INTO job_batch_outcomes (batch_id, job_id, outcome)
+          SELECT batch_id, $2, $3 FROM job_batches WHERE batch_id = $1
+          ON CONFLICT (batch_id, job_id) DO NOTHING
+        `,
+        values: [batchId, jobId, outcome]
+      });
+      if (recorded.rowCount === 0) {
+        return false;
+      }
+      const updated = await client.query({
+        name: "count-job-batch-outcome",
+        text: `
+          UPDATE job_batches
+          SET completed = completed + CASE WHEN $2 = 'completed' THEN 1 ELSE 0 END,
+            failed = failed + CASE WHEN $2 = 'failed' THEN 1 ELSE 0 END,
+            finished_at = CASE
+              WHEN finished_at IS NULL AND completed + failed + 1 >= total THEN NOW()
+              ELSE finished_at
+            END
+          WHERE batch_id = $1
+          RETURNING queue_name, on_complete, finished_at,
+            finished_at IS NOT NULL AND completed + failed = total AS finished_now
+        `,
+        values: [batchId, outcome]
+      });
+      const [batch] = updated.rows as Array<
+        Pick<BatchRow, "queue_name" | "on_complete" | "finished_at"> & { finished_now: boolean }
+      >;
+      if (!batch?.finished_now) {
+        return false;
+      }
+      if (batch.on_complete) {
+        await enqueuePostgresJob(
+          client,
+          batch.queue_name,
+          batch.on_complete,
+          batch.on_complete.priority ? { priority: batch.on_complete.priority } : undefined
+        );
+      }
+      return true;
+    },
+    queryOptions
+  );
+}
+
+export async function getPostgresBatchStatus(
+  pool: PostgresPool,
+  batchId: string,
+  queryOptions: QueryRetryOptions
+): Promise<BatchStatus | null> {
+  const result = await queryPrepared(
+    pool,
+    {
+      name: "select-job-batch",
+      text: "SELECT * FROM job_batches WHERE batch_id = $1",
+      values: [batchId]
+    },
+    queryOptions
+  );
+  const row = result.rows[0] as BatchRow | undefined;
+  if (!row) {
+    return null;
+  }
+  return {
+    batchId,
+    total: row.total,
+    completed: row.completed,
+    failed: row.failed,
+    pending: Math.max(row.total - row.completed - row.failed, 0),
+    done: row.finished_at !== null,
+    createdAt: new Date(row.created_at).toISOString(),
+    ...(row.finished_at ? { finishedAt: new Date(row.finished_at).toISOString() } : {})
+  };
+}
@@ -0,0 +1,158 @@
+import {
+  createLogger,
+  createQueueBackend,
+  createRedisClient,
+  DeadLetterFilter,
+  getDeadLetterJob,
+  listDeadLetterJobs,
+  loadQueueBackendConfig,
+  purgeDeadLetterJobs,
+  QueueBackend,
+  replayDeadLetterJobs,
+  RedisClient
+} from "@project/shared";
+
+const logger = createLogger("worker");
+
+const USAGE = `Usage: node run.js dlq <command> [options]
+
+Commands:
+  list [--type <type>] [--error <text>] [--limit <n>]
+  show <jobId>
+  replay (<jobId>... | --all) [--type <type>] [--error <text>]
+  purge (<jobId>... | --all) [--type <type>] [--error <text>]`;
+
+interface ParsedArgs {
+  command: string | undefined;
+  ids: string[];
+  all: boolean;
+  limit: number;
+  filter: DeadLetterFilter;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const parsed: ParsedArgs = { command, ids: [], all: false, limit: Infinity, filter: {} };
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    const readValue = (): string => {
+      const value = rest[index + 1];
+      if (value === undefined || value.startsWith("--")) {
+        throw new Error(`${arg} requires a value`);
+      }
+      index += 1;
+      return value;
+    };
+    if (arg === "--type") {
+      parsed.filter.type = readValue();
+    } else if (arg === "--error") {
+      parsed.filter.error = readValue();
+    } else if (arg === "--limit") {
+      const limit = Number(readValue());
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("--limit must be a positive integer");
+      }
+      parsed.limit = limit;
+    } else if (arg === "--all") {
+      parsed.all = true;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      parsed.ids.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function resolveTargetFilter(args: ParsedArgs): DeadLetterFilter {
+  if (args.ids.length === 0 && !args.all) {
+    throw new Error(`${args.command} requires job ids or --all`);
+  }
+  return args.ids.length > 0 ? { ...args.filter, jobIds: args.ids } : args.filter;
+}
+
+async function run(
+  redis: RedisClient,
+  args: ParsedArgs,
+  queue: string | QueueBackend,
+  queueName: string,
+  deadLetterQueue: string
+): Promise<void> {
+  switch (args.command) {
+    case "list": {
+      const entries = await listDeadLetterJobs(redis, deadLetterQueue, args.filter, args.limit);
+      for (const { raw, job } of entries) {
+        if (!job) {
+          console.log(`<unreadable> ${raw}`);
+          continue;
+        }
+        console.log(
+          `${job.id} type=${job.type} attempts=${job.attempts} failed_at=${job.failedAt ?? "n/a"} failed_by=${job.failedBy ?? "n/a"} error="${job.lastError ?? ""}"`
+        );
+      }
+      console.log(`${entries.length} job(s)`);
+      return;
+    }
+    case "show": {
+      const [jobId] = args.ids;
+      if (!jobId) {
+        throw new Error("show requires a job id");
+      }
+      const entry = await getDeadLetterJob(redis, deadLetterQueue, jobId);
+      if (!entry) {
+        throw new Error(`Job ${jobId} not found in ${deadLetterQueue}`);
+      }
+      console.log(JSON.stringify(entry.job, null, 2));
+      return;
+    }
+    case "replay": {
+      const replayed = await replayDeadLetterJobs(
+        redis,
+        deadLetterQueue,
+        queue,
+        resolveTargetFilter(args)
+      );
+      for (const jobId of replayed) {
+        console.log(`replayed ${jobId}`);
+      }
+      console.log(`${replayed.length} job(s) replayed to ${queueName}`);
+      return;
+    }
+    case "purge": {
+      const purged = await purgeDeadLetterJobs(redis, deadLetterQueue, resolveTargetFilter(args));
+      console.log(`${purged} job(s) purged from ${deadLetterQueue}`);
+      return;
+    }
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const config = loadQueueBackendConfig();
+  // Only the Redis backends dead-letter onto WORKER_DEAD_LETTER_QUEUE.
+  if (config.kind === "postgres" || config.kind === "memory") {
+    throw new Error(
+      `dlq commands need a Redis queue backend; ${config.kind} keeps dead-lettered jobs itself`
+    );
+  }
+
+  const redis = createRedisClient();
+  await redis.connect();
+  // Replayed jobs must land where the worker reads, so stream queues replay
+  // through the stream backend rather than onto the list.
+  const queue =
+    config.kind === "redis-stream" ? createQueueBackend(config, { redis }) : config.queueName;
+  try {
+    await run(redis, args, queue, config.queueName, config.deadLetterQueue);
+  } finally {
+    await redis.quit();
+  }
+}
+
+void main().catch((error) => {
+  logger.error(`event=dlq_command_failed message="${error instanceof Error ? error.message : String(error)}"`);
+  process.exit(1);
+});
@@ -0,0 +1,13 @@
+import { echoJob, JobPayloadOf } from "@project/shared";
+import { JobHandlerDefinition } from "./registry";
+
+type EchoPayload = JobPayloadOf<typeof echoJob>;
+
+export const echoHandler: JobHandlerDefinition<EchoPayload, EchoPayload> = {
+  type: echoJob.type,
+  timeoutMs: 5000,
+  handle: async (payload, { logger, job }) => {
+    logger.info(`event=echo job_id=${job.id}`);
+    return payload;
+  }
+};
@@ -0,0 +1,13 @@
+import { echoHandler } from "./echo";
+import { createPruneHistoryHandler, RetentionSettings } from "./pruneHistory";
+import { JobHandlerRegistry } from "./registry";
+
+export * from "./registry";
+export * from "./pruneHistory";
+
+export function createJobHandlerRegistry(retention: RetentionSettings): JobHandlerRegistry {
+  const registry = new JobHandlerRegistry();
+  registry.register(echoHandler);
+  registry.register(createPruneHistoryHandler(registry, retention));
+  return registry;
+}
@@ -0,0 +1,61 @@
+import {
+  JobPayloadOf,
+  PruneReport,
+  pruneHistory,
+  pruneHistoryJob,
+  QueryRetryOptions,
+  RetentionPolicy
+} from "@project/shared";
+import { JobHandlerDefinition, JobHandlerRegistry } from "./registry";
+
+type PruneHistoryPayload = JobPayloadOf<typeof pruneHistoryJob>;
+
+export interface RetentionSettings {
+  defaultDays: number;
+  batchSize: number;
+  queryOptions: QueryRetryOptions;
+}
+
+export function buildRetentionPolicy(
+  registry: JobHandlerRegistry,
+  defaultDays: number
+): RetentionPolicy {
+  const byJobType: Record<string, number> = {};
+  for (const type of registry.types()) {
+    const days = registry.get(type)?.retentionDays;
+    if (days !== undefined) {
+      byJobType[type] = days;
+    }
+  }
+  return { defaultDays, byJobType };
+}
+
+// The timeout is well past WORKER_VISIBILITY_TIMEOUT_MS; the worker renews
+// the lease while the prune runs. Every step is safe to repeat, so a run
+// redelivered after a crash continues where the first left off.
+export function createPruneHistoryHandler(
+  registry: JobHandlerRegistry,
+  settings: RetentionSettings
+): JobHandlerDefinition<PruneHistoryPayload, PruneReport> {
+  return {
+    type: pruneHistoryJob.type,
+    timeoutMs: 10 * 60_000,
+    handle: async (payload, { pool, logger, job, signal }) => {
+      const report = await pruneHistory(
+        pool,
+        buildRetentionPolicy(registry, settings.defaultDays),
+        {
+          batchSize: settings.batchSize,
+          queryOptions: settings.queryOptions,
+          dryRun: payload.dryRun ?? false,
+          signal
+        }
+      );
+      const rows = report.tables.reduce((total, table) => total + table.rows, 0);
+      logger.info(
+        `event=history_pruned job_id=${job.id} dry_run=${report.dryRun} rows=${rows} partitions_dropped=${report.partitionsDropped.length}`
+      );
+      return report;
+    }
+  };
+}
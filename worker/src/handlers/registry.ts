@@ -0,0 +1,94 @@
+import {
+  Job,
+  Logger,
+  PostgresPool,
+  RateLimitRule,
+  RedisClient,
+  RetryPolicy
+} from "@project/shared";
+
+export interface JobHandlerContext {
+  job: Job;
+  // Null when the worker runs on the Postgres backend without Redis.
+  redis: RedisClient | null;
+  pool: PostgresPool;
+  logger: Logger;
+  // Aborted when the job times out or is cancelled; long-running handlers
+  // should pass it on (e.g. to fetch) or check it between steps.
+  signal: AbortSignal;
+}
+
+export interface JobHandlerDefinition<P = Record<string, unknown>, R = unknown> {
+  type: string;
+  timeoutMs?: number;
+  // Merged over the worker's default policy (WORKER_RETRY_* settings).
+  retry?: Partial<RetryPolicy>;
+  // Return false for errors that should be dead-lettered without retrying;
+  // throwing `NonRetryableError` has the same effect.
+  isRetryable?: (error: unknown) => boolean;
+  // Throughput limits shared by every worker. Jobs over either limit are
+  // deferred without using up an attempt.
+  rateLimit?: RateLimitRule;
+  maxConcurrent?: number;
+  // Days to keep this type's results and history before the prune-history
+  // job deletes them; defaults to WORKER_RETENTION_DAYS.
+  retentionDays?: number;
+  handle: (payload: P, context: JobHandlerContext) => Promise<R>;
+}
+
+export class JobHandlerRegistry {
+  private handlers = new Map<string, JobHandlerDefinition>();
+
+  register<P, R>(definition: JobHandlerDefinition<P, R>): void {
+    if (this.handlers.has(definition.type)) {
+      throw new Error(`Job handler already registered for type: ${definition.type}`);
+    }
+    this.handlers.set(definition.type, definition as unknown as JobHandlerDefinition);
+  }
+
+  get(type: string): JobHandlerDefinition | undefined {
+    return this.handlers.get(type);
+  }
+
+  types(): string[] {
+    return [...this.handlers.keys()];
+  }
+}
+
+/**
+ * Runs the handler until it settles or `controller` is aborted. The timeout
+ * aborts the controller too, so handlers observe timeouts and cancellation
+ * through the same signal. The returned promise rejects with the abort reason.
+ */
+export async function runJobHandler(
+  handler: JobHandlerDefinition,
+  context: Omit<JobHandlerContext, "signal">,
+  options: { timeoutMs: number; controller: AbortController }
+): Promise<unknown> {
+  const { controller, timeoutMs } = options;
+  const { signal } = controller;
+  const aborted = new Promise<never>((_, reject) => {
+    const onAbort = (): void => {
+      reject(signal.reason instanceof Error ? signal.reason : new Error("Job handler aborted"));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  aborted.catch(() => undefined);
+
+  const timeoutId = setTimeout(() => {
+    controller.abort(new Error(`Job handler timed out after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  try {
+    return await Promise.race([
+      handler.handle(context.job.payload, { ...context, signal }),
+      aborted
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
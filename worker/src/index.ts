@@ -3,25 +3,42 @@ import {
   createRedisClient,
   checkPostgresHealth,
   checkRedisHealth,
-  dequeueJob,
+  BACKOFF_STRATEGIES,
+  BackoffStrategy,
+  CATCH_UP_POLICIES,
+  CatchUpPolicy,
+  CronScheduler,
+  createPostgresSchedulerStore,
+  createRedisSchedulerStore,
+  RetryPolicy,
   parsePgQueryMaxRetries,
+  getMigrationStatus,
+  loadMigrations,
+  runMigrations,
+  QueryRetryOptions,
   queryPrepared,
   registerGracefulShutdown,
-  requeueJob,
-  sendToDeadLetter,
   runGitUpdateOnce,
   startHealthServer,
   createLogger,
   checkRemoteService,
   normalizeStatusCheckOptions,
   ServiceStateTracker,
+  OutboxRelay,
   envParsers,
   loadConfig,
-  registerProcessHandlers
+  registerProcessHandlers,
+  createQueueBackend,
+  loadQueueBackendConfig,
+  QueueBackendConfig
 } from "@project/shared";
-import { RedisClient } from "@project/shared";
 import { execFileSync } from "child_process";
+import { createJobHandlerRegistry } from "./handlers";
+import { JobProcessor } from "./processor";
+import { createPostgresJobServices, createRedisJobServices } from "./services";
+import { scheduledJobs } from "./schedules";
 import fs from "fs";
+import os from "os";
 import path from "path";
 
 const SENSITIVE_ENV = ["REDIS_PASSWORD", "PG_PASSWORD"];
@@ -29,7 +46,7 @@ const startupLogger = createLogger("startup");
 const redisLogger = createLogger("redis");
 const postgresLogger = createLogger("postgres");
 const healthLogger = createLogger("health");
-
+const workerLogger = createLogger("worker");
 
 function sanitizeErrorStack(stack: string): string {
   let sanitized = stack;
@@ -92,34 +109,32 @@ function exitWithConfigError(error: unknown): never {
   process.exit(1);
 }
 
-async function ensureTable(queryOptions: {
-  maxRetries: number;
-  baseDelayMs: number;
-  maxDelayMs: number;
-}): Promise<void> {
+// The ping is retried like any other query, so a worker started before
+// Postgres waits for it instead of failing the migration run.
+async function migrateDatabase(
+  queryOptions: QueryRetryOptions,
+  migrateOnStart: boolean
+): Promise<void> {
   const pool = createPostgresPool();
-  await queryPrepared(pool, {
-    name: "create-table-job-results",
-    text: `
-      CREATE TABLE IF NOT EXISTS job_results (
-        job_id TEXT PRIMARY KEY,
-        worker_name TEXT NOT NULL,
-        job_type TEXT NOT NULL,
-        payload JSONB NOT NULL,
-        processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-      )
-    `
-  }, queryOptions);
-  await pool.end();
-}
-
-async function markIdempotent(redis: RedisClient, key: string, ttlSeconds: number): Promise<boolean> {
-  const result = await redis.set(key, "1", "EX", ttlSeconds, "NX");
-  return result === "OK";
-}
-
-async function sleep(ms: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, ms));
+  try {
+    await queryPrepared(pool, { name: "startup-ping", text: "SELECT 1" }, queryOptions);
+    const migrations = loadMigrations();
+    if (migrateOnStart) {
+      const { applied } = await runMigrations(pool, migrations, { logger: postgresLogger });
+      postgresLogger.info(`event=migrations_complete applied=${applied.length}`);
+      return;
+    }
+    const pending = (await getMigrationStatus(pool, migrations)).filter(
+      (status) => status.state !== "applied"
+    );
+    if (pending.length > 0) {
+      postgresLogger.warn(
+        `event=migrations_outstanding count=${pending.length} message="run node run.js migrate up"`
+      );
+    }
+  } finally {
+    await pool.end();
+  }
 }
 
 function getRedisStartupErrorMessage(error: unknown): string {
@@ -149,11 +164,33 @@ async function main(): Promise<void> {
     baseDelayMs: number;
     maxDelayMs: number;
   };
+  let queueBackendConfig: QueueBackendConfig;
   let queueName: string;
-  let deadLetterQueue: string;
   let maxAttempts: number;
   let idempotencyTtl: number;
-  let baseBackoffMs: number;
+  let jobStatusTtl: number;
+  let retryPolicy: RetryPolicy;
+  let workerId: string;
+  let visibilityTimeoutMs: number;
+  let leaseReaperIntervalMs: number;
+  let delayedPromoteIntervalMs: number;
+  let jobTimeoutMs: number;
+  let concurrency: number;
+  let cancelPollIntervalMs: number;
+  let controlPollIntervalMs: number;
+  let shutdownTimeoutMs: number;
+  let priorityFairnessInterval: number;
+  let schedulerEnabled: boolean;
+  let schedulerTickMs: number;
+  let schedulerCatchUp: CatchUpPolicy;
+  let migrateOnStart: boolean;
+  let outboxRelayEnabled: boolean;
+  let outboxPollIntervalMs: number;
+  let outboxBatchSize: number;
+  let outboxMaxAttempts: number;
+  let outboxPublishTimeoutMs: number;
+  let retentionDays: number;
+  let pruneBatchSize: number;
   let healthPort: number;
   let botHealthUrl: string | null;
   let healthCheckTimeoutMs: number;
@@ -165,16 +202,6 @@ async function main(): Promise<void> {
 
   try {
     const config = loadConfig({
-      queueName: {
-        name: "WORKER_QUEUE_NAME",
-        parse: envParsers.nonEmptyString(),
-        required: true
-      },
-      deadLetterQueue: {
-        name: "WORKER_DEAD_LETTER_QUEUE",
-        parse: envParsers.nonEmptyString(),
-        required: true
-      },
       maxAttempts: {
         name: "WORKER_MAX_ATTEMPTS",
         parse: envParsers.positiveNumber(),
@@ -185,11 +212,160 @@ async function main(): Promise<void> {
         parse: envParsers.positiveNumber(),
         required: true
       },
+      jobStatusTtl: {
+        name: "WORKER_JOB_STATUS_TTL_SEC",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 86400
+      },
       baseBackoffMs: {
         name: "WORKER_BACKOFF_BASE_MS",
         parse: envParsers.positiveNumber(),
         required: true
       },
+      retryStrategy: {
+        name: "WORKER_RETRY_STRATEGY",
+        parse: envParsers.oneOf(BACKOFF_STRATEGIES),
+        required: false,
+        default: "exponential" as BackoffStrategy
+      },
+      retryMaxDelayMs: {
+        name: "WORKER_RETRY_MAX_DELAY_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 30000
+      },
+      workerId: {
+        name: "WORKER_ID",
+        parse: envParsers.nonEmptyString(),
+        required: false,
+        default: os.hostname()
+      },
+      visibilityTimeoutMs: {
+        name: "WORKER_VISIBILITY_TIMEOUT_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 60000
+      },
+      leaseReaperIntervalMs: {
+        name: "WORKER_LEASE_REAPER_INTERVAL_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 15000
+      },
+      delayedPromoteIntervalMs: {
+        name: "WORKER_DELAYED_PROMOTE_INTERVAL_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 1000
+      },
+      jobTimeoutMs: {
+        name: "WORKER_JOB_TIMEOUT_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 30000
+      },
+      cancelPollIntervalMs: {
+        name: "WORKER_CANCEL_POLL_INTERVAL_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 1000
+      },
+      controlPollIntervalMs: {
+        name: "WORKER_CONTROL_POLL_INTERVAL_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 2000
+      },
+      concurrency: {
+        name: "WORKER_CONCURRENCY",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 1
+      },
+      shutdownTimeoutMs: {
+        name: "WORKER_SHUTDOWN_TIMEOUT_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 30000
+      },
+      priorityFairnessInterval: {
+        name: "WORKER_PRIORITY_FAIRNESS_INTERVAL",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 10
+      },
+      schedulerEnabled: {
+        name: "WORKER_SCHEDULER_ENABLED",
+        parse: envParsers.booleanString(),
+        required: false,
+        default: true
+      },
+      schedulerTickMs: {
+        name: "WORKER_SCHEDULER_TICK_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 5000
+      },
+      schedulerCatchUp: {
+        name: "WORKER_SCHEDULER_CATCH_UP",
+        parse: envParsers.oneOf(CATCH_UP_POLICIES),
+        required: false,
+        default: "latest" as CatchUpPolicy
+      },
+      migrateOnStart: {
+        name: "WORKER_MIGRATE_ON_START",
+        parse: envParsers.booleanString(),
+        required: false,
+        default: true
+      },
+      outboxRelayEnabled: {
+        name: "WORKER_OUTBOX_RELAY_ENABLED",
+        parse: envParsers.booleanString(),
+        required: false,
+        default: true
+      },
+      outboxPollIntervalMs: {
+        name: "WORKER_OUTBOX_POLL_INTERVAL_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 1000
+      },
+      outboxBatchSize: {
+        name: "WORKER_OUTBOX_BATCH_SIZE",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 100
+      },
+      outboxMaxAttempts: {
+        name: "WORKER_OUTBOX_MAX_ATTEMPTS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 10
+      },
+      outboxPublishTimeoutMs: {
+        name: "WORKER_OUTBOX_PUBLISH_TIMEOUT_MS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 5000
+      },
+      retentionDays: {
+        name: "WORKER_RETENTION_DAYS",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 30
+      },
+      pruneBatchSize: {
+        name: "WORKER_PRUNE_BATCH_SIZE",
+        parse: envParsers.positiveNumber(),
+        required: false,
+        default: 1000
+      },
+      pgPoolMax: {
+        name: "PG_POOL_MAX",
+        parse: envParsers.positiveNumber(),
+        required: true
+      },
       healthPort: {
         name: "HEALTH_PORT",
         parse: envParsers.positiveNumber(),
@@ -263,11 +439,45 @@ async function main(): Promise<void> {
       maxDelayMs: config.maxDelayMs
     };
 
-    queueName = config.queueName;
-    deadLetterQueue = config.deadLetterQueue;
+    queueBackendConfig = loadQueueBackendConfig();
+    queueName = queueBackendConfig.queueName;
     maxAttempts = config.maxAttempts;
     idempotencyTtl = config.idempotencyTtl;
-    baseBackoffMs = config.baseBackoffMs;
+    jobStatusTtl = config.jobStatusTtl;
+    retryPolicy = {
+      strategy: config.retryStrategy,
+      baseDelayMs: config.baseBackoffMs,
+      maxDelayMs: config.retryMaxDelayMs
+    };
+    workerId = config.workerId;
+    visibilityTimeoutMs = config.visibilityTimeoutMs;
+    leaseReaperIntervalMs = config.leaseReaperIntervalMs;
+    delayedPromoteIntervalMs = config.delayedPromoteIntervalMs;
+    jobTimeoutMs = config.jobTimeoutMs;
+    shutdownTimeoutMs = config.shutdownTimeoutMs;
+    cancelPollIntervalMs = config.cancelPollIntervalMs;
+    controlPollIntervalMs = config.controlPollIntervalMs;
+    priorityFairnessInterval = Math.floor(config.priorityFairnessInterval);
+    schedulerEnabled = config.schedulerEnabled;
+    schedulerTickMs = config.schedulerTickMs;
+    schedulerCatchUp = config.schedulerCatchUp;
+    migrateOnStart = config.migrateOnStart;
+    outboxRelayEnabled = config.outboxRelayEnabled;
+    outboxPollIntervalMs = config.outboxPollIntervalMs;
+    outboxBatchSize = Math.floor(config.outboxBatchSize);
+    outboxMaxAttempts = Math.floor(config.outboxMaxAttempts);
+    outboxPublishTimeoutMs = config.outboxPublishTimeoutMs;
+    retentionDays = config.retentionDays;
+    pruneBatchSize = Math.floor(config.pruneBatchSize);
+    // Each in-flight job may hold a pool client, so never run more jobs than
+    // the pool can serve.
+    concurrency = Math.floor(config.concurrency);
+    if (concurrency > config.pgPoolMax) {
+      startupLogger.warn(
+        `event=config_adjusted name=WORKER_CONCURRENCY value=${concurrency} capped_to=${config.pgPoolMax} reason=PG_POOL_MAX`
+      );
+      concurrency = config.pgPoolMax;
+    }
     healthPort = config.healthPort;
     botHealthUrl = config.botHealthUrl ?? config.workerBotHealthUrl ?? null;
     healthCheckTimeoutMs = config.healthCheckTimeoutMs;
@@ -282,7 +492,7 @@ async function main(): Promise<void> {
 
   try {
     postgresLogger.info("event=postgres_connecting");
-    await ensureTable(queryOptions);
+    await migrateDatabase(queryOptions, migrateOnStart);
     postgresLogger.info("event=postgres_ready");
   } catch (error) {
     exitWithStartupError(error, "postgres startup failed");
@@ -296,21 +506,81 @@ async function main(): Promise<void> {
     branch: gitBranch
   });
 
-  const redis = createRedisClient();
+  // On the Postgres backend every piece of worker state lives in Postgres,
+  // so the worker does not connect to Redis at all.
+  const redis = queueBackendConfig.kind === "postgres" ? null : createRedisClient();
   const pool = createPostgresPool();
-  try {
-    redisLogger.info("event=redis_connecting");
-    await redis.connect();
-    await redis.ping();
-    redisLogger.info("event=redis_ready detail=ping_ok");
-  } catch (error) {
-    logRedisStartupFailure(error);
-    exitWithStartupError(error, "redis startup failed");
+  if (redis) {
+    try {
+      redisLogger.info("event=redis_connecting");
+      await redis.connect();
+      await redis.ping();
+      redisLogger.info("event=redis_ready detail=ping_ok");
+    } catch (error) {
+      logRedisStartupFailure(error);
+      exitWithStartupError(error, "redis startup failed");
+    }
   }
 
+  const backend = createQueueBackend(queueBackendConfig, {
+    redis: redis ?? undefined,
+    pool,
+    queryOptions
+  });
+  workerLogger.info(`event=queue_backend_selected backend=${backend.kind} queue=${queueName}`);
+  const recovered = await backend.recover(workerId);
+  workerLogger.info(`event=processing_list_recovered worker_id=${workerId} count=${recovered}`);
+
   const serviceState = new ServiceStateTracker("STARTING");
   serviceState.setState("READY");
 
+  const registry = createJobHandlerRegistry({
+    defaultDays: retentionDays,
+    batchSize: pruneBatchSize,
+    queryOptions
+  });
+  workerLogger.info(`event=handlers_registered types=${registry.types().join(",")}`);
+
+  const processor = new JobProcessor({
+    backend,
+    registry,
+    services: redis
+      ? createRedisJobServices({
+          redis,
+          pool,
+          queryOptions,
+          queueName,
+          backend,
+          idempotencyTtl,
+          jobStatusTtl
+        })
+      : createPostgresJobServices({ pool, queryOptions, queueName, idempotencyTtl }),
+    handlerContext: { redis, pool },
+    logger: workerLogger,
+    workerId,
+    queueName,
+    concurrency,
+    visibilityTimeoutMs,
+    jobTimeoutMs,
+    retryPolicy,
+    priorityFairnessInterval,
+    leaseReaperIntervalMs,
+    delayedPromoteIntervalMs,
+    cancelPollIntervalMs,
+    controlPollIntervalMs,
+    // Paused or draining reports DEGRADED until the flag is cleared.
+    onControlChange: (reason) => {
+      if (serviceState.getSnapshot().state === "ERROR") {
+        return;
+      }
+      if (reason) {
+        serviceState.setState("DEGRADED", reason);
+      } else {
+        serviceState.setState("READY");
+      }
+    }
+  });
+
   const healthHost = "0.0.0.0";
   healthLogger.info(`event=health_start host=${healthHost} port=${healthPort}`);
   const healthServer = startHealthServer({
@@ -320,19 +590,24 @@ async function main(): Promise<void> {
     getVersion: () => loadVersionInfo(gitRepoPath),
     getState: () => serviceState.getSnapshot(),
     deriveState: (checks) => {
-      const redisOk = checks.redis?.ok ?? false;
+      const redisOk = redis ? checks.redis?.ok ?? false : true;
       const postgresOk = checks.postgres?.ok ?? false;
       if (!redisOk) {
         serviceState.setState("ERROR", "redis_unreachable");
       } else if (!postgresOk) {
         serviceState.setState("ERROR", "postgres_unreachable");
       } else {
-        serviceState.setState("READY");
+        const reason = processor.getControlReason();
+        if (reason) {
+          serviceState.setState("DEGRADED", reason);
+        } else {
+          serviceState.setState("READY");
+        }
       }
       return serviceState.getSnapshot();
     },
     checks: {
-      redis: async () => checkRedisHealth(redis, healthCheckTimeoutMs),
+      ...(redis ? { redis: async () => checkRedisHealth(redis, healthCheckTimeoutMs) } : {}),
       postgres: async () => checkPostgresHealth(pool, healthCheckTimeoutMs)
     }
   });
@@ -362,58 +637,58 @@ async function main(): Promise<void> {
     }
   }
 
-  let running = true;
-
-  const loop = async (): Promise<void> => {
-    while (running) {
-      const job = await dequeueJob(redis, queueName, 5);
-      if (!job) {
-        continue;
-      }
-
-      const idempotencyKey = `idem:${job.id}`;
-      const canProcess = await markIdempotent(redis, idempotencyKey, idempotencyTtl);
-      if (!canProcess) {
-        continue;
-      }
-
-      try {
-        await queryPrepared(
-          pool,
-          {
-            name: "insert-job-result",
-            text: `
-              INSERT INTO job_results (job_id, worker_name, job_type, payload)
-              VALUES ($1, $2, $3, $4)
-            `,
-            values: [job.id, "worker", job.type, job.payload]
-          },
-          queryOptions
-        );
-      } catch (error) {
-        job.attempts += 1;
-        if (job.attempts >= maxAttempts) {
-          await sendToDeadLetter(redis, deadLetterQueue, job);
-          continue;
-        }
-        const delay = Math.min(baseBackoffMs * 2 ** job.attempts, 30000);
-        await sleep(delay);
-        await requeueJob(redis, queueName, job);
-      }
-    }
-  };
+  const scheduler = new CronScheduler({
+    store: redis
+      ? createRedisSchedulerStore(redis)
+      : createPostgresSchedulerStore(pool, queryOptions),
+    queueName,
+    ownerId: workerId,
+    logger: workerLogger,
+    tickIntervalMs: schedulerTickMs,
+    defaultCatchUp: schedulerCatchUp,
+    defaultMaxAttempts: maxAttempts,
+    backend
+  });
+  for (const definition of scheduledJobs) {
+    scheduler.register(definition);
+  }
+  if (schedulerEnabled) {
+    scheduler.start();
+    workerLogger.info(`event=scheduler_started schedules=${scheduler.names().join(",")}`);
+  }
 
-  void loop().catch((error) => {
-    serviceState.setState("ERROR", "worker_loop_failed");
-    startupLogger.fatal(
-      `event=worker_loop_failed message="${error instanceof Error ? error.message : String(error)}"`
-    );
-    process.exit(1);
+  const outboxRelay = new OutboxRelay({
+    pool,
+    redis: redis ?? undefined,
+    queryOptions,
+    logger: workerLogger,
+    batchSize: outboxBatchSize,
+    maxAttempts: outboxMaxAttempts,
+    publishTimeoutMs: outboxPublishTimeoutMs,
+    backends: { [queueName]: backend },
+    pollIntervalMs: outboxPollIntervalMs
   });
+  if (outboxRelayEnabled) {
+    outboxRelay.start();
+    workerLogger.info(`event=outbox_relay_started interval_ms=${outboxPollIntervalMs}`);
+  }
+
+  await processor.start();
 
   registerGracefulShutdown([
-    () => {
-      running = false;
+    // The loop may be inside a dequeue; it must finish (and hand back any
+    // job it just took) before the connections close.
+    async () => {
+      await processor.stop();
+    },
+    async () => {
+      await scheduler.stop();
+    },
+    async () => {
+      await outboxRelay.stop();
+    },
+    async () => {
+      await processor.waitForInFlight(shutdownTimeoutMs);
     },
     () =>
       new Promise<void>((resolve) => {
@@ -423,7 +698,7 @@ async function main(): Promise<void> {
       await pool.end();
     },
     async () => {
-      await redis.quit();
+      await redis?.quit();
     }
   ]);
 }
@@ -0,0 +1,77 @@
+import {
+  createLogger,
+  createPostgresPool,
+  getMigrationStatus,
+  loadMigrations,
+  PostgresPool,
+  runMigrations
+} from "@project/shared";
+
+const logger = createLogger("postgres");
+
+const USAGE = `Usage: node run.js migrate <command>
+
+Commands:
+  status
+  up
+  dry-run`;
+
+async function run(pool: PostgresPool, command: string | undefined): Promise<void> {
+  const migrations = loadMigrations();
+  switch (command) {
+    case "status": {
+      const statuses = await getMigrationStatus(pool, migrations);
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? ` applied_at=${status.appliedAt.toISOString()}` : "";
+        console.log(`${status.version}_${status.name} ${status.state}${appliedAt}`);
+      }
+      if (statuses.length === 0) {
+        console.log("no migrations found");
+      }
+      return;
+    }
+    case "up": {
+      const { applied } = await runMigrations(pool, migrations, { logger });
+      console.log(`applied ${applied.length} migration(s)`);
+      return;
+    }
+    case "dry-run": {
+      const statuses = await getMigrationStatus(pool, migrations);
+      const changed = statuses.filter((status) => status.state === "changed");
+      for (const status of changed) {
+        console.log(`changed ${status.version}_${status.name} (up would refuse to run)`);
+      }
+      const pending = statuses.filter((status) => status.state === "pending");
+      for (const status of pending) {
+        console.log(`would apply ${status.version}_${status.name}`);
+      }
+      console.log(`${pending.length} pending migration(s)`);
+      if (changed.length > 0) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  if (rest.length > 0) {
+    throw new Error(`Unknown argument: ${rest[0]}`);
+  }
+
+  const pool = createPostgresPool();
+  try {
+    await run(pool, command);
+  } finally {
+    await pool.end();
+  }
+}
+
+void main().catch((error) => {
+  logger.error(`event=migrate_command_failed message="${error instanceof Error ? error.message : String(error)}"`);
+  process.exit(1);
+});
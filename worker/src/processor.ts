@@ -0,0 +1,513 @@
+import {
+  buildContinuationJob,
+  getMaxAttempts,
+  getPriorityOrder,
+  getRetryDelay,
+  isNonRetryableError,
+  Job,
+  JobCancelledError,
+  JobResultRecord,
+  JobStatusUpdate,
+  Logger,
+  QueueBackend,
+  QueueControlState,
+  QueueLease,
+  RetryPolicy
+} from "@project/shared";
+import { JobHandlerContext, JobHandlerDefinition, JobHandlerRegistry, runJobHandler } from "./handlers";
+import { JobProcessorServices } from "./services";
+
+// Lower bound on how long a job of a paused type is deferred before it is
+// looked at again.
+const PAUSED_TYPE_DEFER_MS = 5000;
+
+// How long a job waits before retrying when its type is at `maxConcurrent`.
+const CONCURRENCY_THROTTLE_DEFER_MS = 1000;
+
+// Pause after a failed dequeue (e.g. Redis or Postgres briefly unreachable)
+// before the loop tries again.
+const DEQUEUE_ERROR_BACKOFF_MS = 1000;
+
+export interface JobProcessorOptions {
+  backend: QueueBackend;
+  registry: JobHandlerRegistry;
+  services: JobProcessorServices;
+  // Connections handed to every handler alongside the job.
+  handlerContext: Pick<JobHandlerContext, "redis" | "pool">;
+  logger: Logger;
+  workerId: string;
+  queueName: string;
+  concurrency: number;
+  visibilityTimeoutMs: number;
+  jobTimeoutMs: number;
+  retryPolicy: RetryPolicy;
+  priorityFairnessInterval: number;
+  leaseReaperIntervalMs: number;
+  delayedPromoteIntervalMs: number;
+  cancelPollIntervalMs: number;
+  controlPollIntervalMs: number;
+  dequeueTimeoutSeconds?: number;
+  // Called after every refresh of the pause and drain flags.
+  onControlChange?: (reason: string | undefined) => void;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Takes jobs from a `QueueBackend` and runs them through the handler
+ * registry: idempotency claim, per-type limits, the handler itself with lease
+ * renewal and cancellation, then ack, retry or dead-letter. Everything outside
+ * the queue goes through `services`, so the processor runs against any
+ * backend and, in tests, without Redis or Postgres.
+ */
+export class JobProcessor {
+  private readonly options: JobProcessorOptions & { dequeueTimeoutSeconds: number };
+  private readonly runningJobs = new Map<string, AbortController>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private readonly timers: NodeJS.Timeout[] = [];
+  // Pause and drain flags are cached locally and refreshed on a timer so the
+  // dequeue loop never waits on an extra round trip.
+  private control: QueueControlState = { paused: null, pausedTypes: [], draining: false };
+  private running = false;
+  private dequeueCount = 0;
+  private drainReported = false;
+  private loopDone: Promise<void> | null = null;
+  // Resolved on stop so the loop stops waiting on a slot or a pause.
+  private stopLoop: () => void = () => undefined;
+  private loopStopped: Promise<void> = Promise.resolve();
+
+  constructor(options: JobProcessorOptions) {
+    this.options = { ...options, dequeueTimeoutSeconds: options.dequeueTimeoutSeconds ?? 5 };
+  }
+
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /** Why no new jobs are being taken, if the queue is paused or draining. */
+  getControlReason(): string | undefined {
+    if (this.control.paused) {
+      return "paused";
+    }
+    return this.control.draining ? "draining" : undefined;
+  }
+
+  /** Loads the control flags, starts the maintenance timers and the loop. */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    const { backend, logger } = this.options;
+    await this.refreshControlState();
+    this.running = true;
+    this.loopStopped = new Promise<void>((resolve) => {
+      this.stopLoop = resolve;
+    });
+
+    this.every(this.options.leaseReaperIntervalMs, "lease_reaper_failed", async () => {
+      const reaped = await backend.reapExpiredLeases();
+      if (reaped > 0) {
+        logger.warn(`event=leases_reaped count=${reaped}`);
+      }
+    });
+    this.every(this.options.delayedPromoteIntervalMs, "delayed_promote_failed", async () => {
+      await backend.promoteDueJobs();
+    });
+    this.every(this.options.cancelPollIntervalMs, "cancel_watch_failed", async () => {
+      const cancelled = await this.options.services.getCancelledJobIds([...this.runningJobs.keys()]);
+      for (const jobId of cancelled) {
+        this.runningJobs.get(jobId)?.abort(new JobCancelledError(jobId));
+      }
+    });
+    this.every(this.options.controlPollIntervalMs, "control_watch_failed", () =>
+      this.refreshControlState()
+    );
+
+    this.loopDone = this.loop();
+  }
+
+  /**
+   * Stops taking jobs and waits for the loop to exit, including a dequeue in
+   * progress. Jobs already running are left to `waitForInFlight`.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.stopLoop();
+    for (const timer of this.timers.splice(0)) {
+      clearInterval(timer);
+    }
+    await this.loopDone;
+  }
+
+  /** Waits for running jobs to settle, at most `timeoutMs`. */
+  async waitForInFlight(timeoutMs: number): Promise<void> {
+    if (this.inFlight.size === 0) {
+      return;
+    }
+    const { logger } = this.options;
+    logger.info(`event=shutdown_draining in_flight=${this.inFlight.size}`);
+    let timeoutId: NodeJS.Timeout | null = null;
+    const timeout = new Promise<void>((resolve) => {
+      timeoutId = setTimeout(() => {
+        logger.warn(`event=shutdown_drain_timeout in_flight=${this.inFlight.size}`);
+        resolve();
+      }, timeoutMs);
+    });
+    await Promise.race([Promise.allSettled(this.inFlight).then(() => undefined), timeout]);
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private every(intervalMs: number, failureEvent: string, task: () => Promise<void>): void {
+    this.timers.push(
+      setInterval(() => {
+        void task().catch((error) => {
+          this.options.logger.error(`event=${failureEvent} message="${errorMessage(error)}"`);
+        });
+      }, intervalMs)
+    );
+  }
+
+  private async sleepUnlessStopped(ms: number): Promise<void> {
+    let timeoutId: NodeJS.Timeout | null = null;
+    await Promise.race([
+      this.loopStopped,
+      new Promise<void>((resolve) => {
+        timeoutId = setTimeout(resolve, ms);
+      })
+    ]);
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async refreshControlState(): Promise<void> {
+    const { logger, queueName, workerId } = this.options;
+    const previous = this.control;
+    const control = await this.options.services.getQueueControlState(workerId);
+    this.control = control;
+    if (!previous.paused && control.paused) {
+      logger.warn(`event=queue_paused queue=${queueName} reason="${control.paused.reason ?? ""}"`);
+    } else if (previous.paused && !control.paused) {
+      logger.info(`event=queue_resumed queue=${queueName}`);
+    }
+    if (previous.pausedTypes.join(",") !== control.pausedTypes.join(",")) {
+      logger.info(
+        `event=paused_types_changed queue=${queueName} types=${control.pausedTypes.join(",") || "none"}`
+      );
+    }
+    if (!previous.draining && control.draining) {
+      logger.warn(`event=drain_started worker_id=${workerId} in_flight=${this.inFlight.size}`);
+      this.drainReported = false;
+    } else if (previous.draining && !control.draining) {
+      logger.info(`event=drain_stopped worker_id=${workerId}`);
+    }
+    if (control.draining && !this.drainReported && this.inFlight.size === 0) {
+      logger.info(`event=drain_complete worker_id=${workerId}`);
+      this.drainReported = true;
+    }
+    this.options.onControlChange?.(this.getControlReason());
+  }
+
+  // A failed dequeue is logged and retried after a pause rather than ending
+  // the loop, so a dependency outage only stalls the worker.
+  private async loop(): Promise<void> {
+    const { backend, logger, queueName, workerId } = this.options;
+    while (this.running) {
+      if (this.inFlight.size >= this.options.concurrency) {
+        await Promise.race([...this.inFlight, this.loopStopped]);
+        continue;
+      }
+      // Paused or draining: in-flight jobs keep running, nothing new is taken.
+      if (this.getControlReason()) {
+        await this.sleepUnlessStopped(this.options.controlPollIntervalMs);
+        continue;
+      }
+
+      let lease: QueueLease | null;
+      try {
+        lease = await backend.dequeue(workerId, {
+          timeoutSeconds: this.options.dequeueTimeoutSeconds,
+          visibilityTimeoutMs: this.options.visibilityTimeoutMs,
+          priorityOrder: getPriorityOrder(this.dequeueCount, this.options.priorityFairnessInterval),
+          onQuarantine: (entry) => {
+            logger.error(`event=job_quarantined queue=${queueName} message="${entry.error}"`);
+          }
+        });
+      } catch (error) {
+        logger.error(`event=dequeue_failed message="${errorMessage(error)}"`);
+        await this.sleepUnlessStopped(DEQUEUE_ERROR_BACKOFF_MS);
+        continue;
+      }
+      if (!lease) {
+        continue;
+      }
+      this.dequeueCount += 1;
+      if (!this.running) {
+        // Handing the job straight back beats waiting out its lease; if that
+        // fails too, the reaper or the next startup's recovery returns it.
+        const { job } = lease;
+        await backend.requeue(lease, job).catch((error) => {
+          logger.warn(`event=shutdown_requeue_failed job_id=${job.id} message="${errorMessage(error)}"`);
+        });
+        break;
+      }
+
+      const taken = lease;
+      const task: Promise<void> = this.processLease(taken)
+        .catch((error) => {
+          logger.error(
+            `event=job_processing_failed job_id=${taken.job.id} message="${errorMessage(error)}"`
+          );
+        })
+        .finally(() => {
+          this.inFlight.delete(task);
+        });
+      this.inFlight.add(task);
+    }
+  }
+
+  // Status tracking is best effort: a Redis or Postgres hiccup while recording
+  // a transition must not fail or retry the job itself.
+  private async recordStatus(job: Job, update: JobStatusUpdate): Promise<void> {
+    try {
+      await this.options.services.updateJobStatus(job, update);
+    } catch (error) {
+      this.options.logger.warn(
+        `event=job_status_update_failed job_id=${job.id} state=${update.state} message="${errorMessage(error)}"`
+      );
+    }
+  }
+
+  // Failed and cancelled runs are recorded best effort too; only a completed
+  // run's result is part of finishing the job.
+  private async recordRunResult(record: JobResultRecord): Promise<void> {
+    try {
+      await this.options.services.recordJobResult(record);
+    } catch (error) {
+      this.options.logger.warn(
+        `event=job_result_record_failed job_id=${record.jobId} status=${record.status} message="${errorMessage(error)}"`
+      );
+    }
+  }
+
+  private async recordDeadLettered(job: Job, reason: string): Promise<void> {
+    await this.recordStatus(job, { state: "failed", lastError: reason });
+    if (job.batchId) {
+      await this.options.services.recordBatchOutcome(job.batchId, job.id, "failed");
+    }
+  }
+
+  private async finishCancelled(lease: QueueLease): Promise<void> {
+    const job = lease.job;
+    this.options.logger.info(`event=job_cancelled job_id=${job.id} type=${job.type}`);
+    await this.options.backend.ack(lease);
+    await this.recordStatus(job, { state: "cancelled" });
+    if (job.batchId) {
+      await this.options.services.recordBatchOutcome(job.batchId, job.id, "failed");
+    }
+  }
+
+  private async releaseJobTypeCapacity(handler: JobHandlerDefinition, job: Job): Promise<void> {
+    if (handler.maxConcurrent !== undefined) {
+      await this.options.services.releaseConcurrencySlot(job.type, job.id);
+    }
+  }
+
+  // Returns how long to defer the job when its type is over a limit, or null
+  // once it may run. The concurrency slot is taken first so a job that cannot
+  // start never spends a rate limit unit. Only the holder of the job's
+  // idempotency claim gets here, so the job id is a unique slot holder.
+  private async acquireJobTypeCapacity(
+    handler: JobHandlerDefinition,
+    job: Job
+  ): Promise<number | null> {
+    const { services } = this.options;
+    if (handler.maxConcurrent !== undefined) {
+      const acquired = await services.acquireConcurrencySlot(
+        job.type,
+        job.id,
+        handler.maxConcurrent,
+        (handler.timeoutMs ?? this.options.jobTimeoutMs) + this.options.visibilityTimeoutMs
+      );
+      if (!acquired) {
+        return CONCURRENCY_THROTTLE_DEFER_MS;
+      }
+    }
+    if (handler.rateLimit) {
+      const limit = await services.consumeRateLimit(job.type, handler.rateLimit);
+      if (!limit.allowed) {
+        await this.releaseJobTypeCapacity(handler, job);
+        return Math.max(limit.retryAfterMs, 1);
+      }
+    }
+    return null;
+  }
+
+  // Renews the lease and the idempotency claim while a job runs, so a handler
+  // allowed to run longer than the visibility timeout is neither reaped nor
+  // claimed by another worker. Returns the function that stops it.
+  private startHeartbeat(lease: QueueLease): () => void {
+    const { backend, services, logger, workerId, visibilityTimeoutMs } = this.options;
+    const job = lease.job;
+    const timer = setInterval(() => {
+      void Promise.all([
+        backend.extendLease(lease, visibilityTimeoutMs),
+        services.extendIdempotencyClaim(job.id, workerId, visibilityTimeoutMs)
+      ])
+        .then(([, claimed]) => {
+          if (!claimed) {
+            logger.warn(`event=job_claim_lost job_id=${job.id} type=${job.type}`);
+          }
+        })
+        .catch((error) => {
+          logger.warn(`event=job_heartbeat_failed job_id=${job.id} message="${errorMessage(error)}"`);
+        });
+    }, Math.max(Math.floor(visibilityTimeoutMs / 3), 1));
+    return () => clearInterval(timer);
+  }
+
+  private async runLease(lease: QueueLease, handler: JobHandlerDefinition): Promise<void> {
+    const { backend, services, logger, workerId } = this.options;
+    const job = lease.job;
+    await this.recordStatus(job, { state: "running" });
+    const stopHeartbeat = this.startHeartbeat(lease);
+    const controller = new AbortController();
+    this.runningJobs.set(job.id, controller);
+    const startedAt = new Date();
+    let durationMs = 0;
+    const runResult = (
+      status: JobResultRecord["status"],
+      attempts: number,
+      fields: Pick<JobResultRecord, "output" | "error"> = {}
+    ): JobResultRecord => ({
+      jobId: job.id,
+      jobCreatedAt: job.createdAt,
+      jobType: job.type,
+      workerId,
+      status,
+      attempts,
+      payload: job.payload,
+      startedAt,
+      durationMs,
+      ...fields
+    });
+    try {
+      const result = await runJobHandler(
+        handler,
+        { job, ...this.options.handlerContext, logger },
+        { timeoutMs: handler.timeoutMs ?? this.options.jobTimeoutMs, controller }
+      ).finally(() => {
+        durationMs = Date.now() - startedAt.getTime();
+      });
+      await services.recordJobResult(
+        runResult("completed", job.attempts + 1, { output: result ?? null })
+      );
+      // Follow-ups are queued before the job is marked completed: a crash in
+      // between reruns the job, and the follow-up's fixed id dedupes it.
+      const next = buildContinuationJob(job, result);
+      if (next) {
+        await backend.enqueue(next, next.priority ? { priority: next.priority } : undefined);
+      }
+      if (job.batchId) {
+        await services.recordBatchOutcome(job.batchId, job.id, "completed");
+      }
+      await services.markIdempotencyCompleted(job.id, workerId);
+      await backend.ack(lease);
+      await this.recordStatus(job, { state: "completed", result: result ?? null });
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        await services.markIdempotencyFailed(job.id, workerId);
+        await this.finishCancelled(lease);
+        await this.recordRunResult(runResult("cancelled", job.attempts + 1));
+        return;
+      }
+      job.attempts += 1;
+      job.lastError = errorMessage(error);
+      const policy = { ...this.options.retryPolicy, ...handler.retry };
+      const retryable = !isNonRetryableError(error) && (handler.isRetryable?.(error) ?? true);
+      logger.warn(
+        `event=job_failed job_id=${job.id} type=${job.type} attempts=${job.attempts} retryable=${retryable} message="${job.lastError}"`
+      );
+      await services.markIdempotencyFailed(job.id, workerId);
+      if (!retryable || job.attempts >= getMaxAttempts(policy, job)) {
+        await backend.deadLetter(lease, job, { error: job.lastError, workerId });
+        await this.recordDeadLettered(job, job.lastError);
+        await this.recordRunResult(runResult("failed", job.attempts, { error: job.lastError }));
+        return;
+      }
+      const delay = getRetryDelay(policy, job.attempts, job.retryDelayMs);
+      job.retryDelayMs = delay;
+      await backend.requeue(lease, job, Date.now() + delay);
+      await this.recordStatus(job, { state: "retrying", lastError: job.lastError });
+      await this.recordRunResult(runResult("retrying", job.attempts, { error: job.lastError }));
+    } finally {
+      stopHeartbeat();
+      this.runningJobs.delete(job.id);
+    }
+  }
+
+  private async processLease(lease: QueueLease): Promise<void> {
+    const { backend, services, logger, workerId, visibilityTimeoutMs } = this.options;
+    const job = lease.job;
+
+    // Jobs of a paused type go back to the delayed set untouched: no attempt
+    // is consumed and they are picked up again once the type is resumed.
+    if (this.control.pausedTypes.includes(job.type)) {
+      logger.info(`event=job_type_paused job_id=${job.id} type=${job.type}`);
+      await backend.requeue(
+        lease,
+        job,
+        Date.now() + Math.max(this.options.controlPollIntervalMs, PAUSED_TYPE_DEFER_MS)
+      );
+      return;
+    }
+
+    const handler = this.options.registry.get(job.type);
+    if (!handler) {
+      const reason = `No handler registered for job type: ${job.type}`;
+      logger.warn(`event=job_unknown_type job_id=${job.id} type=${job.type}`);
+      await backend.deadLetter(lease, job, { error: reason, workerId });
+      await this.recordDeadLettered(job, reason);
+      return;
+    }
+
+    if (await services.isJobCancelled(job.id)) {
+      await this.finishCancelled(lease);
+      return;
+    }
+
+    // Duplicates are turned away before they can take a concurrency slot or
+    // spend a rate limit unit.
+    const claim = await services.claimIdempotency(job.id, workerId, visibilityTimeoutMs);
+    if (claim === "completed") {
+      logger.info(`event=job_duplicate_skipped job_id=${job.id}`);
+      await backend.ack(lease);
+      return;
+    }
+    if (claim === "in_progress") {
+      logger.warn(`event=job_claimed_elsewhere job_id=${job.id}`);
+      await backend.requeue(lease, job, Date.now() + visibilityTimeoutMs);
+      return;
+    }
+
+    // Throttled jobs are deferred rather than failed, so they keep their
+    // attempts, and give up their claim for whichever worker runs them next.
+    const deferMs = await this.acquireJobTypeCapacity(handler, job);
+    if (deferMs !== null) {
+      logger.info(`event=job_throttled job_id=${job.id} type=${job.type} retry_in_ms=${deferMs}`);
+      await services.releaseIdempotencyClaim(job.id, workerId);
+      await backend.requeue(lease, job, Date.now() + deferMs);
+      return;
+    }
+
+    try {
+      await this.runLease(lease, handler);
+    } finally {
+      await this.releaseJobTypeCapacity(handler, job);
+    }
+  }
+}
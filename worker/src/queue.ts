@@ -0,0 +1,212 @@
+import {
+  createLogger,
+  createPostgresPool,
+  createRedisClient,
+  drainPostgresWorkers,
+  drainWorkers,
+  envParsers,
+  getPostgresQueueControlState,
+  getQueueControlState,
+  listDrainingWorkers,
+  listPostgresDrainingWorkers,
+  loadConfig,
+  loadQueueBackendConfig,
+  parsePgQueryMaxRetries,
+  pausePostgresJobType,
+  pausePostgresQueue,
+  pauseJobType,
+  pauseQueue,
+  PostgresPool,
+  QueryRetryOptions,
+  QueueControlState,
+  RedisClient,
+  resumeJobType,
+  resumePostgresJobType,
+  resumePostgresQueue,
+  resumeQueue,
+  undrainPostgresWorkers,
+  undrainWorkers
+} from "@project/shared";
+
+const logger = createLogger("worker");
+
+const USAGE = `Usage: node run.js queue <command> [options]
+
+Commands:
+  status
+  pause [--type <type>] [--reason <text>]
+  resume [--type <type>]
+  drain [--worker <workerId>]
+  undrain [--worker <workerId>]`;
+
+interface ParsedArgs {
+  command: string | undefined;
+  type?: string;
+  reason?: string;
+  workerId?: string;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const parsed: ParsedArgs = { command };
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    const readValue = (): string => {
+      const value = rest[index + 1];
+      if (value === undefined || value.startsWith("--")) {
+        throw new Error(`${arg} requires a value`);
+      }
+      index += 1;
+      return value;
+    };
+    if (arg === "--type") {
+      parsed.type = readValue();
+    } else if (arg === "--reason") {
+      parsed.reason = readValue();
+    } else if (arg === "--worker") {
+      parsed.workerId = readValue();
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return parsed;
+}
+
+// The control flags live in Redis, or in Postgres when the worker runs on
+// the Postgres backend without Redis.
+interface QueueControls {
+  getState(): Promise<QueueControlState>;
+  listDraining(): Promise<string[]>;
+  pause(reason?: string): Promise<void>;
+  resume(): Promise<void>;
+  pauseType(type: string): Promise<void>;
+  resumeType(type: string): Promise<void>;
+  drain(workerId?: string): Promise<void>;
+  undrain(workerId?: string): Promise<void>;
+}
+
+function createRedisControls(redis: RedisClient, queueName: string): QueueControls {
+  return {
+    getState: () => getQueueControlState(redis, queueName),
+    listDraining: () => listDrainingWorkers(redis, queueName),
+    pause: (reason) => pauseQueue(redis, queueName, reason),
+    resume: () => resumeQueue(redis, queueName),
+    pauseType: (type) => pauseJobType(redis, queueName, type),
+    resumeType: (type) => resumeJobType(redis, queueName, type),
+    drain: (workerId) => drainWorkers(redis, queueName, workerId),
+    undrain: (workerId) => undrainWorkers(redis, queueName, workerId)
+  };
+}
+
+function createPostgresControls(
+  pool: PostgresPool,
+  queueName: string,
+  queryOptions: QueryRetryOptions
+): QueueControls {
+  return {
+    getState: () => getPostgresQueueControlState(pool, queueName, undefined, queryOptions),
+    listDraining: () => listPostgresDrainingWorkers(pool, queueName, queryOptions),
+    pause: (reason) => pausePostgresQueue(pool, queueName, reason, queryOptions),
+    resume: () => resumePostgresQueue(pool, queueName, queryOptions),
+    pauseType: (type) => pausePostgresJobType(pool, queueName, type, queryOptions),
+    resumeType: (type) => resumePostgresJobType(pool, queueName, type, queryOptions),
+    drain: (workerId) => drainPostgresWorkers(pool, queueName, workerId, queryOptions),
+    undrain: (workerId) => undrainPostgresWorkers(pool, queueName, workerId, queryOptions)
+  };
+}
+
+async function run(controls: QueueControls, args: ParsedArgs, queueName: string): Promise<void> {
+  switch (args.command) {
+    case "status": {
+      const state = await controls.getState();
+      const draining = await controls.listDraining();
+      console.log(`queue=${queueName}`);
+      console.log(
+        state.paused
+          ? `paused=true since=${state.paused.pausedAt} reason="${state.paused.reason ?? ""}"`
+          : "paused=false"
+      );
+      console.log(`paused_types=${state.pausedTypes.join(",") || "none"}`);
+      console.log(`draining=${draining.join(",") || "none"}`);
+      return;
+    }
+    case "pause": {
+      if (args.type) {
+        await controls.pauseType(args.type);
+        console.log(`paused job type ${args.type} on ${queueName}`);
+        return;
+      }
+      await controls.pause(args.reason);
+      console.log(`paused ${queueName}`);
+      return;
+    }
+    case "resume": {
+      if (args.type) {
+        await controls.resumeType(args.type);
+        console.log(`resumed job type ${args.type} on ${queueName}`);
+        return;
+      }
+      await controls.resume();
+      console.log(`resumed ${queueName}`);
+      return;
+    }
+    case "drain": {
+      await controls.drain(args.workerId);
+      console.log(`draining ${args.workerId ?? "all workers"} on ${queueName}`);
+      return;
+    }
+    case "undrain": {
+      await controls.undrain(args.workerId);
+      console.log(`stopped draining ${args.workerId ?? "all workers"} on ${queueName}`);
+      return;
+    }
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const { kind, queueName } = loadQueueBackendConfig();
+
+  if (kind === "postgres") {
+    const config = loadConfig({
+      baseDelayMs: {
+        name: "PG_QUERY_BASE_DELAY_MS",
+        parse: envParsers.positiveNumber(),
+        required: true
+      },
+      maxDelayMs: {
+        name: "PG_QUERY_MAX_DELAY_MS",
+        parse: envParsers.positiveNumber(),
+        required: true
+      }
+    });
+    const queryOptions = {
+      maxRetries: parsePgQueryMaxRetries(logger),
+      baseDelayMs: config.baseDelayMs,
+      maxDelayMs: config.maxDelayMs
+    };
+    const pool = createPostgresPool();
+    try {
+      await run(createPostgresControls(pool, queueName, queryOptions), args, queueName);
+    } finally {
+      await pool.end();
+    }
+    return;
+  }
+
+  const redis = createRedisClient();
+  await redis.connect();
+  try {
+    await run(createRedisControls(redis, queueName), args, queueName);
+  } finally {
+    await redis.quit();
+  }
+}
+
+void main().catch((error) => {
+  logger.error(`event=queue_command_failed message="${error instanceof Error ? error.message : String(error)}"`);
+  process.exit(1);
+});
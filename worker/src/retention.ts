@@ -0,0 +1,121 @@
+import {
+  createLogger,
+  createPostgresPool,
+  envParsers,
+  loadConfig,
+  parsePgQueryMaxRetries,
+  partitionJobResults,
+  PostgresPool,
+  PruneReport,
+  pruneHistory,
+  QueryRetryOptions,
+  RetentionPolicy
+} from "@project/shared";
+import { buildRetentionPolicy, createJobHandlerRegistry } from "./handlers";
+
+const logger = createLogger("postgres");
+
+const USAGE = `Usage: node run.js retention <command>
+
+Commands:
+  report      show what prune would delete, without deleting it
+  prune
+  partition   convert job_results to monthly partitions`;
+
+function printReport(report: PruneReport): void {
+  const verb = report.dryRun ? "would delete" : "deleted";
+  for (const table of report.tables) {
+    console.log(
+      `${table.table} type=${table.jobType ?? "default"} older_than=${table.olderThan} ${verb}=${table.rows}`
+    );
+  }
+  for (const partition of report.partitionsDropped) {
+    console.log(`${report.dryRun ? "would drop" : "dropped"} partition ${partition}`);
+  }
+}
+
+async function run(
+  pool: PostgresPool,
+  command: string | undefined,
+  settings: { policy: RetentionPolicy; batchSize: number; queryOptions: QueryRetryOptions }
+): Promise<void> {
+  const { policy, batchSize, queryOptions } = settings;
+  switch (command) {
+    case "report":
+    case "prune": {
+      const report = await pruneHistory(pool, policy, {
+        batchSize,
+        queryOptions,
+        dryRun: command === "report"
+      });
+      printReport(report);
+      return;
+    }
+    case "partition": {
+      const partitions = await partitionJobResults(pool, queryOptions);
+      console.log(`partitioned job_results into ${partitions.join(", ")} and job_results_default`);
+      return;
+    }
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  if (rest.length > 0) {
+    throw new Error(`Unknown argument: ${rest[0]}`);
+  }
+  const config = loadConfig({
+    retentionDays: {
+      name: "WORKER_RETENTION_DAYS",
+      parse: envParsers.positiveNumber(),
+      required: false,
+      default: 30
+    },
+    pruneBatchSize: {
+      name: "WORKER_PRUNE_BATCH_SIZE",
+      parse: envParsers.positiveNumber(),
+      required: false,
+      default: 1000
+    },
+    baseDelayMs: {
+      name: "PG_QUERY_BASE_DELAY_MS",
+      parse: envParsers.positiveNumber(),
+      required: true
+    },
+    maxDelayMs: {
+      name: "PG_QUERY_MAX_DELAY_MS",
+      parse: envParsers.positiveNumber(),
+      required: true
+    }
+  });
+  const queryOptions = {
+    maxRetries: parsePgQueryMaxRetries(logger),
+    baseDelayMs: config.baseDelayMs,
+    maxDelayMs: config.maxDelayMs
+  };
+  const batchSize = Math.floor(config.pruneBatchSize);
+  const registry = createJobHandlerRegistry({
+    defaultDays: config.retentionDays,
+    batchSize,
+    queryOptions
+  });
+
+  const pool = createPostgresPool();
+  try {
+    await run(pool, command, {
+      policy: buildRetentionPolicy(registry, config.retentionDays),
+      batchSize,
+      queryOptions
+    });
+  } finally {
+    await pool.end();
+  }
+}
+
+void main().catch((error) => {
+  logger.error(`event=retention_command_failed message="${error instanceof Error ? error.message : String(error)}"`);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+import { pruneHistoryJob, ScheduledJobDefinition } from "@project/shared";
+
+// Recurring jobs fired by the worker's cron scheduler. Expressions are in UTC,
+// and each entry's `type` must have a handler in `./handlers`, e.g.
+// { name: "daily-digest", cron: "0 9 * * *", type: "digest", catchUp: "latest" }
+export const scheduledJobs: ScheduledJobDefinition[] = [
+  { name: "prune-history", cron: "30 3 * * *", type: pruneHistoryJob.type, catchUp: "latest" }
+];
@@ -0,0 +1,180 @@
+import {
+  acquireConcurrencySlot,
+  acquirePostgresConcurrencySlot,
+  BatchOutcome,
+  claimIdempotency,
+  claimPostgresIdempotency,
+  consumePostgresRateLimit,
+  consumeRateLimit,
+  extendIdempotencyClaim,
+  extendPostgresIdempotencyClaim,
+  getCancelledJobIds,
+  getPostgresCancelledJobIds,
+  getPostgresQueueControlState,
+  getQueueControlState,
+  IdempotencyClaimResult,
+  isJobCancelled,
+  isPostgresJobCancelled,
+  Job,
+  JobResultRecord,
+  JobStatusUpdate,
+  markIdempotencyCompleted,
+  markIdempotencyFailed,
+  markPostgresIdempotency,
+  PostgresPool,
+  QueryRetryOptions,
+  QueueBackend,
+  QueueControlState,
+  RateLimitResult,
+  RateLimitRule,
+  recordBatchOutcome,
+  recordJobResult,
+  recordPostgresBatchOutcome,
+  RedisClient,
+  releaseConcurrencySlot,
+  releaseIdempotencyClaim,
+  releasePostgresConcurrencySlot,
+  releasePostgresIdempotencyClaim,
+  updateJobStatus,
+  updatePostgresJobStatus
+} from "@project/shared";
+
+/**
+ * Everything the job processor needs besides the queue backend: idempotency
+ * claims, status and result records, batches, cancellation flags, queue
+ * controls and per-type limits. The worker uses `createRedisJobServices`, or
+ * `createPostgresJobServices` on the Postgres backend; tests substitute
+ * in-memory versions.
+ */
+export interface JobProcessorServices {
+  claimIdempotency(jobId: string, owner: string, leaseMs: number): Promise<IdempotencyClaimResult>;
+  extendIdempotencyClaim(jobId: string, owner: string, leaseMs: number): Promise<boolean>;
+  releaseIdempotencyClaim(jobId: string, owner: string): Promise<boolean>;
+  markIdempotencyCompleted(jobId: string, owner: string): Promise<void>;
+  markIdempotencyFailed(jobId: string, owner: string): Promise<void>;
+  updateJobStatus(job: Job, update: JobStatusUpdate): Promise<void>;
+  recordJobResult(record: JobResultRecord): Promise<void>;
+  recordBatchOutcome(batchId: string, jobId: string, outcome: BatchOutcome): Promise<void>;
+  isJobCancelled(jobId: string): Promise<boolean>;
+  getCancelledJobIds(jobIds: string[]): Promise<string[]>;
+  getQueueControlState(workerId: string): Promise<QueueControlState>;
+  acquireConcurrencySlot(
+    jobType: string,
+    holder: string,
+    limit: number,
+    ttlMs: number
+  ): Promise<boolean>;
+  releaseConcurrencySlot(jobType: string, holder: string): Promise<void>;
+  consumeRateLimit(jobType: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+export interface RedisJobServicesOptions {
+  redis: RedisClient;
+  pool: PostgresPool;
+  queryOptions: QueryRetryOptions;
+  queueName: string;
+  // Queues the completion job of batches created through a backend.
+  backend: QueueBackend;
+  idempotencyTtl: number;
+  jobStatusTtl: number;
+}
+
+export function createRedisJobServices(options: RedisJobServicesOptions): JobProcessorServices {
+  const { redis, pool, queryOptions, queueName, backend, idempotencyTtl, jobStatusTtl } = options;
+  const getThrottleKey = (type: string): string => `${queueName}:throttle:${type}`;
+  const getConcurrencyKey = (type: string): string => `${queueName}:running:${type}`;
+  return {
+    claimIdempotency: (jobId, owner, leaseMs) => claimIdempotency(redis, jobId, owner, leaseMs),
+    extendIdempotencyClaim: (jobId, owner, leaseMs) =>
+      extendIdempotencyClaim(redis, jobId, owner, leaseMs),
+    releaseIdempotencyClaim: (jobId, owner) => releaseIdempotencyClaim(redis, jobId, owner),
+    markIdempotencyCompleted: async (jobId, owner) => {
+      await markIdempotencyCompleted(redis, jobId, owner, idempotencyTtl);
+    },
+    markIdempotencyFailed: async (jobId, owner) => {
+      await markIdempotencyFailed(redis, jobId, owner, idempotencyTtl);
+    },
+    updateJobStatus: async (job, update) => {
+      await updateJobStatus(
+        redis,
+        job.id,
+        { type: job.type, attempts: job.attempts, createdAt: job.createdAt, ...update },
+        { ttlSeconds: jobStatusTtl, pool, queryOptions }
+      );
+    },
+    recordJobResult: (record) => recordJobResult(pool, record, queryOptions),
+    recordBatchOutcome: async (batchId, jobId, outcome) => {
+      await recordBatchOutcome(redis, batchId, jobId, outcome, { backend });
+    },
+    isJobCancelled: (jobId) => isJobCancelled(redis, jobId),
+    getCancelledJobIds: (jobIds) => getCancelledJobIds(redis, jobIds),
+    getQueueControlState: (workerId) => getQueueControlState(redis, queueName, workerId),
+    acquireConcurrencySlot: (jobType, holder, limit, ttlMs) =>
+      acquireConcurrencySlot(redis, getConcurrencyKey(jobType), holder, limit, ttlMs),
+    releaseConcurrencySlot: (jobType, holder) =>
+      releaseConcurrencySlot(redis, getConcurrencyKey(jobType), holder),
+    consumeRateLimit: (jobType, rule) => consumeRateLimit(redis, getThrottleKey(jobType), rule)
+  };
+}
+
+export interface PostgresJobServicesOptions {
+  pool: PostgresPool;
+  queryOptions: QueryRetryOptions;
+  queueName: string;
+  idempotencyTtl: number;
+}
+
+/**
+ * Keeps everything in Postgres, so a worker on the Postgres backend runs
+ * without Redis. Statuses live in `job_statuses` and are pruned by the
+ * retention job rather than expiring, and batches must be created with
+ * `enqueuePostgresBatch`.
+ */
+export function createPostgresJobServices(options: PostgresJobServicesOptions): JobProcessorServices {
+  const { pool, queryOptions, queueName, idempotencyTtl } = options;
+  const getThrottleKey = (type: string): string => `${queueName}:throttle:${type}`;
+  const getConcurrencyKey = (type: string): string => `${queueName}:running:${type}`;
+  return {
+    claimIdempotency: (jobId, owner, leaseMs) =>
+      claimPostgresIdempotency(pool, jobId, owner, leaseMs, queryOptions),
+    extendIdempotencyClaim: (jobId, owner, leaseMs) =>
+      extendPostgresIdempotencyClaim(pool, jobId, owner, leaseMs, queryOptions),
+    releaseIdempotencyClaim: (jobId, owner) =>
+      releasePostgresIdempotencyClaim(pool, jobId, owner, queryOptions),
+    markIdempotencyCompleted: async (jobId, owner) => {
+      await markPostgresIdempotency(pool, jobId, owner, "completed", idempotencyTtl, queryOptions);
+    },
+    markIdempotencyFailed: async (jobId, owner) => {
+      await markPostgresIdempotency(pool, jobId, owner, "failed", idempotencyTtl, queryOptions);
+    },
+    updateJobStatus: async (job, update) => {
+      await updatePostgresJobStatus(
+        pool,
+        job.id,
+        { type: job.type, attempts: job.attempts, createdAt: job.createdAt, ...update },
+        queryOptions
+      );
+    },
+    recordJobResult: (record) => recordJobResult(pool, record, queryOptions),
+    recordBatchOutcome: async (batchId, jobId, outcome) => {
+      await recordPostgresBatchOutcome(pool, batchId, jobId, outcome, queryOptions);
+    },
+    isJobCancelled: (jobId) => isPostgresJobCancelled(pool, jobId, queryOptions),
+    getCancelledJobIds: (jobIds) => getPostgresCancelledJobIds(pool, jobIds, queryOptions),
+    getQueueControlState: (workerId) =>
+      getPostgresQueueControlState(pool, queueName, workerId, queryOptions),
+    acquireConcurrencySlot: (jobType, holder, limit, ttlMs) =>
+      acquirePostgresConcurrencySlot(
+        pool,
+        getConcurrencyKey(jobType),
+        holder,
+        limit,
+        ttlMs,
+        queryOptions
+      ),
+    releaseConcurrencySlot: (jobType, holder) =>
+      releasePostgresConcurrencySlot(pool, getConcurrencyKey(jobType), holder, queryOptions),
+    consumeRateLimit: (jobType, rule) =>
+      consumePostgresRateLimit(pool, getThrottleKey(jobType), rule, queryOptions)
+  };
+}
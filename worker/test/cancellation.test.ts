@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  cancelJob,
+  createJob,
+  enqueueBatch,
+  getBatchStatus,
+  getJobStatus,
+  MemoryQueueBackend,
+  recordBatchOutcome
+} from "@project/shared";
+import { createTestRedis } from "./support/redis";
+
+test("cancelling the last waiting member of a backend batch queues its completion job", async () => {
+  const redis = createTestRedis();
+  const backend = new MemoryQueueBackend();
+  try {
+    await enqueueBatch(
+      redis,
+      backend,
+      [createJob("member-1", "echo", {}, 3), createJob("member-2", "echo", {}, 3)],
+      { batchId: "batch-1", onComplete: createJob("batch-1-done", "echo", {}, 3) }
+    );
+    const lease = await backend.dequeue("worker-test", { timeoutSeconds: 0, visibilityTimeoutMs: 1000 });
+    assert.equal(lease?.job.id, "member-1");
+    await backend.ack(lease!);
+    await recordBatchOutcome(redis, "batch-1", "member-1", "completed", { backend });
+
+    assert.equal(await cancelJob(redis, backend, "member-2"), "removed");
+    assert.equal((await getJobStatus(redis, "member-2"))?.state, "cancelled");
+    const status = await getBatchStatus(redis, "batch-1");
+    assert.deepEqual([status?.completed, status?.failed, status?.done], [1, 1, true]);
+    const next = await backend.dequeue("worker-test", { timeoutSeconds: 0, visibilityTimeoutMs: 1000 });
+    assert.equal(next?.job.id, "batch-1-done");
+    assert.equal(next?.job.completesBatch, "batch-1");
+  } finally {
+    redis.disconnect();
+  }
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getNextCronTime, parseCronExpression } from "@project/shared";
+
+function nextTimes(expression: string, after: string, count: number): string[] {
+  const schedule = parseCronExpression(expression);
+  const times: string[] = [];
+  let current = new Date(after);
+  for (let i = 0; i < count; i += 1) {
+    current = getNextCronTime(schedule, current);
+    times.push(current.toISOString());
+  }
+  return times;
+}
+
+test("parses ranges, steps, lists and macros", () => {
+  const schedule = parseCronExpression("*/15 9-17 1,15 * 1-5");
+  assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...schedule.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+  assert.equal(schedule.months.size, 12);
+  assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+
+  const daily = parseCronExpression("@daily");
+  assert.deepEqual([...daily.minutes], [0]);
+  assert.deepEqual([...daily.hours], [0]);
+  assert.equal(daily.expression, "@daily");
+});
+
+test("treats day-of-week 7 as Sunday", () => {
+  assert.deepEqual([...parseCronExpression("0 0 * * 7").daysOfWeek], [0]);
+});
+
+test("rejects malformed expressions", () => {
+  assert.throws(() => parseCronExpression("* * * *"), /must have 5 fields/);
+  assert.throws(() => parseCronExpression("60 * * * *"), /Invalid cron minute field/);
+  assert.throws(() => parseCronExpression("* * 0 * *"), /Invalid cron day-of-month field/);
+  assert.throws(() => parseCronExpression("* 5-2 * * *"), /Invalid cron hour field/);
+  assert.throws(() => parseCronExpression("*/0 * * * *"), /Invalid step/);
+});
+
+test("returns the first matching minute strictly after the given time", () => {
+  assert.deepEqual(nextTimes("*/15 * * * *", "2026-03-01T10:15:00Z", 2), [
+    "2026-03-01T10:30:00.000Z",
+    "2026-03-01T10:45:00.000Z"
+  ]);
+  assert.deepEqual(nextTimes("0 0 1 * *", "2026-01-31T23:59:59Z", 2), [
+    "2026-02-01T00:00:00.000Z",
+    "2026-03-01T00:00:00.000Z"
+  ]);
+});
+
+test("matches either day field when both are restricted", () => {
+  // The 10th of each month (a Tuesday in March 2026), and every Friday.
+  assert.deepEqual(nextTimes("0 12 10 * 5", "2026-03-01T00:00:00Z", 4), [
+    "2026-03-06T12:00:00.000Z",
+    "2026-03-10T12:00:00.000Z",
+    "2026-03-13T12:00:00.000Z",
+    "2026-03-20T12:00:00.000Z"
+  ]);
+  // Only day-of-week restricted: every Monday, whatever the date.
+  assert.deepEqual(nextTimes("0 0 * * 1", "2026-03-01T00:00:00Z", 2), [
+    "2026-03-02T00:00:00.000Z",
+    "2026-03-09T00:00:00.000Z"
+  ]);
+});
+
+test("runs on UTC, unaffected by daylight saving changes", () => {
+  // Europe moves its clocks on 2026-03-29 and the US on 2026-03-08; a daily
+  // schedule still fires once a day at the same UTC time across both.
+  assert.deepEqual(nextTimes("30 2 * * *", "2026-03-07T12:00:00Z", 2), [
+    "2026-03-08T02:30:00.000Z",
+    "2026-03-09T02:30:00.000Z"
+  ]);
+  assert.deepEqual(nextTimes("30 1 * * *", "2026-03-28T12:00:00Z", 2), [
+    "2026-03-29T01:30:00.000Z",
+    "2026-03-30T01:30:00.000Z"
+  ]);
+  assert.deepEqual(nextTimes("0 * * * *", "2026-10-25T00:30:00Z", 3), [
+    "2026-10-25T01:00:00.000Z",
+    "2026-10-25T02:00:00.000Z",
+    "2026-10-25T03:00:00.000Z"
+  ]);
+});
+
+test("finds a Feb 29 occurrence years ahead", () => {
+  assert.deepEqual(nextTimes("0 0 29 2 *", "2026-03-01T00:00:00Z", 1), [
+    "2028-02-29T00:00:00.000Z"
+  ]);
+});
+
+test("throws for an expression that never fires", () => {
+  assert.throws(
+    () => getNextCronTime(parseCronExpression("0 0 31 2 *"), new Date("2026-01-01T00:00:00Z")),
+    /never fires/
+  );
+});
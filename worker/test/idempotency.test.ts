@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  claimIdempotency,
+  getIdempotencyKey,
+  getIdempotencyRecord,
+  markIdempotencyCompleted,
+  markIdempotencyFailed
+} from "@project/shared";
+import { createTestRedis } from "./support/redis";
+
+test("a worker whose claim expired cannot mark the job over the new owner's claim", async () => {
+  const redis = createTestRedis();
+  assert.equal(await claimIdempotency(redis, "job-1", "worker-a", 60000), "claimed");
+  // worker-a's claim expires and worker-b claims the redelivered job.
+  await redis.del(getIdempotencyKey("job-1"));
+  assert.equal(await claimIdempotency(redis, "job-1", "worker-b", 60000), "claimed");
+
+  assert.equal(await markIdempotencyCompleted(redis, "job-1", "worker-a", 3600), false);
+  assert.equal(await markIdempotencyFailed(redis, "job-1", "worker-a", 3600), false);
+  assert.deepEqual(
+    { ...(await getIdempotencyRecord(redis, "job-1")), updatedAt: undefined },
+    { state: "in_progress", owner: "worker-b", updatedAt: undefined }
+  );
+
+  assert.equal(await markIdempotencyCompleted(redis, "job-1", "worker-b", 3600), true);
+  assert.equal((await getIdempotencyRecord(redis, "job-1"))?.state, "completed");
+});
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  assertValidJobPayload,
+  createJob,
+  defineJobType,
+  getJobSchema,
+  validateJobPayload
+} from "@project/shared";
+
+const sendEmail = defineJobType("schema-test-send-email", {
+  to: { type: "string", minLength: 3, maxLength: 20 },
+  template: { type: "string", enum: ["welcome", "reset"] },
+  retries: { type: "number", integer: true, min: 0, max: 3, optional: true },
+  urgent: { type: "boolean", optional: true },
+  meta: { type: "object", optional: true, properties: { campaign: { type: "string" } } },
+  tags: { type: "array", optional: true, items: { type: "string" } }
+});
+
+test("a payload matching the schema has no errors", () => {
+  assert.deepEqual(
+    validateJobPayload(sendEmail.type, {
+      to: "ada@example.com",
+      template: "welcome",
+      retries: 2,
+      urgent: false,
+      meta: { campaign: "spring" },
+      tags: ["a", "b"],
+      extra: "ignored"
+    }),
+    []
+  );
+});
+
+test("every failing field is reported with its path", () => {
+  assert.deepEqual(
+    validateJobPayload(sendEmail.type, {
+      to: "x",
+      template: "goodbye",
+      retries: 1.5,
+      urgent: "yes",
+      meta: { campaign: 7 },
+      tags: ["a", null]
+    }),
+    [
+      "payload.to must be at least 3 characters",
+      "payload.template must be one of: welcome, reset",
+      "payload.retries must be an integer",
+      "payload.urgent must be a boolean (got string)",
+      "payload.meta.campaign must be a string (got number)",
+      "payload.tags[1] must be a string (got null)"
+    ]
+  );
+  assert.deepEqual(
+    validateJobPayload(sendEmail.type, { to: "a".repeat(21), retries: Number.NaN }),
+    [
+      "payload.to must be at most 20 characters",
+      "payload.template is required",
+      "payload.retries must be a finite number (got number)"
+    ]
+  );
+  assert.deepEqual(
+    validateJobPayload(sendEmail.type, { to: "ada", template: "reset", retries: 4 }),
+    ["payload.retries must be <= 3"]
+  );
+});
+
+test("a payload that is not an object is rejected outright", () => {
+  assert.deepEqual(validateJobPayload(sendEmail.type, ["ada"]), [
+    "payload must be an object (got array)"
+  ]);
+  assert.deepEqual(validateJobPayload(sendEmail.type, null), [
+    "payload must be an object (got null)"
+  ]);
+});
+
+test("job types without a schema accept any payload", () => {
+  assert.equal(getJobSchema("schema-test-unknown"), undefined);
+  assert.deepEqual(validateJobPayload("schema-test-unknown", { anything: true }), []);
+});
+
+test("producers cannot create or assert an invalid job", () => {
+  assert.throws(
+    () => assertValidJobPayload(sendEmail.type, { to: "ada" }),
+    /Invalid payload for job type "schema-test-send-email": payload.template is required/
+  );
+  assert.throws(
+    () => createJob("job-1", sendEmail, { to: "ada", template: "reset", retries: -1 }, 3),
+    /payload.retries must be >= 0/
+  );
+});
+
+test("a job type can only be defined once", () => {
+  assert.throws(
+    () => defineJobType(sendEmail.type, {}),
+    /Job schema already defined for type: schema-test-send-email/
+  );
+});
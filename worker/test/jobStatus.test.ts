@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getJobStatus, updateJobStatus } from "@project/shared";
+import { createTestRedis } from "./support/redis";
+
+test("a status first written by the worker keeps the job's creation time", async () => {
+  const redis = createTestRedis();
+  const createdAt = "2026-03-01T10:00:00.000Z";
+  // The Postgres backend records no Redis status at enqueue, so the worker's
+  // "running" update is the first one.
+  await updateJobStatus(redis, "job-1", { state: "running", type: "echo", createdAt });
+  await updateJobStatus(redis, "job-1", {
+    state: "completed",
+    createdAt: "2026-03-01T11:00:00.000Z"
+  });
+
+  const status = await getJobStatus(redis, "job-1");
+  assert.equal(status?.state, "completed");
+  assert.equal(status?.createdAt, createdAt);
+});
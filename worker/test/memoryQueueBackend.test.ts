@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createJob, MemoryQueueBackend } from "@project/shared";
+
+const dequeueOptions = { timeoutSeconds: 0, visibilityTimeoutMs: -1 };
+
+test("a reaped lease neither requeues nor dead-letters a second copy", async () => {
+  const backend = new MemoryQueueBackend();
+  await backend.enqueue(createJob("job-1", "echo", {}, 3));
+  const stale = await backend.dequeue("worker-a", dequeueOptions);
+  assert.equal(await backend.reapExpiredLeases(), 1);
+  const current = await backend.dequeue("worker-b", { ...dequeueOptions, visibilityTimeoutMs: 60000 });
+  assert.equal(current?.job.id, "job-1");
+
+  await backend.requeue(stale!, stale!.job);
+  await backend.requeue(stale!, stale!.job, Date.now() + 60000);
+  await backend.deadLetter(stale!, stale!.job);
+  assert.deepEqual(await backend.depth(), { ready: 0, delayed: 0, inFlight: 1, deadLetter: 0 });
+
+  await backend.requeue(current!, current!.job);
+  assert.deepEqual(await backend.depth(), { ready: 1, delayed: 0, inFlight: 0, deadLetter: 0 });
+});
+
+test("remove takes every waiting copy of a job", async () => {
+  const backend = new MemoryQueueBackend();
+  await backend.enqueue(createJob("job-1", "echo", {}, 3));
+  await backend.enqueue(createJob("job-1", "echo", {}, 3));
+  await backend.enqueue(createJob("job-1", "echo", {}, 3), { delayMs: 60000 });
+  await backend.enqueue(createJob("job-1", "echo", {}, 3), { delayMs: 60000 });
+  await backend.enqueue(createJob("job-2", "echo", {}, 3));
+
+  assert.equal((await backend.remove("job-1"))?.id, "job-1");
+  assert.deepEqual(await backend.depth(), { ready: 1, delayed: 0, inFlight: 0, deadLetter: 0 });
+  assert.equal(await backend.remove("job-1"), null);
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  createJob,
+  Job,
+  MemoryQueueBackend,
+  PostgresPool,
+  relayOutboxBatch
+} from "@project/shared";
+
+const queryOptions = { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 };
+
+/** Answers the claim with `rows` and records every statement by name. */
+function createOutboxPool(rows: Array<{ id: string; job: Job }>): {
+  pool: PostgresPool;
+  statements: Array<{ name: string; values?: unknown[] }>;
+} {
+  const statements: Array<{ name: string; values?: unknown[] }> = [];
+  const pool = {
+    query: async (query: { name?: string; values?: unknown[] } | string) => {
+      const name = typeof query === "string" ? query : query.name ?? "";
+      statements.push({ name, values: typeof query === "string" ? undefined : query.values });
+      if (name !== "claim-outbox-batch") {
+        return { rows: [], rowCount: 0 };
+      }
+      return {
+        rows: rows.map((row) => ({
+          id: row.id,
+          queue_name: "jobs",
+          job_id: row.job.id,
+          job: row.job,
+          priority: null,
+          run_at: null
+        })),
+        rowCount: rows.length
+      };
+    }
+  };
+  return { pool: pool as unknown as PostgresPool, statements };
+}
+
+test("the relay claims rows in their own statement and publishes outside a transaction", async () => {
+  const backend = new MemoryQueueBackend();
+  const { pool, statements } = createOutboxPool([
+    { id: "2", job: createJob("job-2", "echo", {}, 3) },
+    { id: "1", job: createJob("job-1", "echo", {}, 3) }
+  ]);
+
+  const result = await relayOutboxBatch({
+    pool,
+    queryOptions,
+    batchSize: 10,
+    backends: { jobs: backend }
+  });
+
+  assert.deepEqual(result, { claimed: 2, sent: 2, dead: 0 });
+  assert.deepEqual(
+    statements.map((statement) => statement.name),
+    ["claim-outbox-batch", "mark-outbox-sent"]
+  );
+  assert.deepEqual(statements[1].values, [["1", "2"]]);
+  const first = await backend.dequeue("worker-a", { timeoutSeconds: 0, visibilityTimeoutMs: 1000 });
+  assert.equal(first?.job.id, "job-1");
+});
+
+test("rows not started before the claim runs short are released", async () => {
+  const backend = new MemoryQueueBackend();
+  const enqueue = backend.enqueue.bind(backend);
+  backend.enqueue = async (job, options) => {
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    return enqueue(job, options);
+  };
+  const { pool, statements } = createOutboxPool([
+    { id: "1", job: createJob("job-1", "echo", {}, 3) },
+    { id: "2", job: createJob("job-2", "echo", {}, 3) }
+  ]);
+
+  const result = await relayOutboxBatch({
+    pool,
+    queryOptions,
+    batchSize: 10,
+    publishTimeoutMs: 150,
+    claimTtlMs: 200,
+    backends: { jobs: backend }
+  });
+
+  assert.deepEqual(result, { claimed: 2, sent: 1, dead: 0 });
+  assert.deepEqual(
+    statements.slice(1).map((statement) => [statement.name, statement.values]),
+    [
+      ["mark-outbox-sent", [["1"]]],
+      ["release-outbox-claims", [["2"]]]
+    ]
+  );
+});
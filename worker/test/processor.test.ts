@@ -0,0 +1,354 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import {
+  createJob,
+  IdempotencyClaimResult,
+  Job,
+  JobResultRecord,
+  JobState,
+  Logger,
+  MemoryQueueBackend,
+  PostgresPool,
+  QueueControlState,
+  RateLimitResult,
+  RedisClient
+} from "@project/shared";
+import { JobHandlerDefinition, JobHandlerRegistry } from "../src/handlers";
+import { JobProcessor, JobProcessorOptions } from "../src/processor";
+import { JobProcessorServices } from "../src/services";
+
+/** Services kept in maps, with knobs for the cases under test. */
+class MemoryJobServices implements JobProcessorServices {
+  readonly claims = new Map<string, { state: IdempotencyClaimResult | "failed"; owner: string }>();
+  readonly states = new Map<string, JobState[]>();
+  readonly results: JobResultRecord[] = [];
+  readonly cancelled = new Set<string>();
+  readonly releasedClaims: string[] = [];
+  control: QueueControlState = { paused: null, pausedTypes: [], draining: false };
+  concurrencyAvailable = true;
+
+  async claimIdempotency(jobId: string, owner: string): Promise<IdempotencyClaimResult> {
+    const claim = this.claims.get(jobId);
+    if (claim?.state === "completed" || claim?.state === "in_progress") {
+      return claim.state;
+    }
+    this.claims.set(jobId, { state: "in_progress", owner });
+    return "claimed";
+  }
+
+  async extendIdempotencyClaim(jobId: string, owner: string): Promise<boolean> {
+    return this.claims.get(jobId)?.owner === owner;
+  }
+
+  async releaseIdempotencyClaim(jobId: string, owner: string): Promise<boolean> {
+    if (this.claims.get(jobId)?.owner !== owner) {
+      return false;
+    }
+    this.claims.delete(jobId);
+    this.releasedClaims.push(jobId);
+    return true;
+  }
+
+  async markIdempotencyCompleted(jobId: string, owner: string): Promise<void> {
+    this.claims.set(jobId, { state: "completed", owner });
+  }
+
+  async markIdempotencyFailed(jobId: string, owner: string): Promise<void> {
+    this.claims.set(jobId, { state: "failed", owner });
+  }
+
+  async updateJobStatus(job: Job, update: { state: JobState }): Promise<void> {
+    this.states.set(job.id, [...(this.states.get(job.id) ?? []), update.state]);
+  }
+
+  async recordJobResult(record: JobResultRecord): Promise<void> {
+    this.results.push(record);
+  }
+
+  async recordBatchOutcome(): Promise<void> {
+    return undefined;
+  }
+
+  async isJobCancelled(jobId: string): Promise<boolean> {
+    return this.cancelled.has(jobId);
+  }
+
+  async getCancelledJobIds(jobIds: string[]): Promise<string[]> {
+    return jobIds.filter((jobId) => this.cancelled.has(jobId));
+  }
+
+  async getQueueControlState(): Promise<QueueControlState> {
+    return this.control;
+  }
+
+  async acquireConcurrencySlot(): Promise<boolean> {
+    return this.concurrencyAvailable;
+  }
+
+  async releaseConcurrencySlot(): Promise<void> {
+    return undefined;
+  }
+
+  async consumeRateLimit(): Promise<RateLimitResult> {
+    return { allowed: true, remaining: 1, retryAfterMs: 0, resetAt: Date.now() };
+  }
+
+  lastState(jobId: string): JobState | undefined {
+    return this.states.get(jobId)?.at(-1);
+  }
+}
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  fatal: () => undefined
+};
+
+let current: JobProcessor | null = null;
+
+afterEach(async () => {
+  await current?.stop();
+  await current?.waitForInFlight(1000);
+  current = null;
+});
+
+function createProcessor(
+  handlers: JobHandlerDefinition[],
+  overrides: Partial<JobProcessorOptions> = {}
+): { processor: JobProcessor; backend: MemoryQueueBackend; services: MemoryJobServices } {
+  const backend = new MemoryQueueBackend({ pollIntervalMs: 5 });
+  const services = new MemoryJobServices();
+  const registry = new JobHandlerRegistry();
+  for (const handler of handlers) {
+    registry.register(handler);
+  }
+  const processor = new JobProcessor({
+    backend,
+    registry,
+    services,
+    // The handlers under test never touch Redis or Postgres.
+    handlerContext: { redis: {} as RedisClient, pool: {} as PostgresPool },
+    logger: silentLogger,
+    workerId: "worker-test",
+    queueName: "test",
+    concurrency: 2,
+    visibilityTimeoutMs: 1000,
+    jobTimeoutMs: 1000,
+    retryPolicy: { strategy: "fixed", baseDelayMs: 1, maxDelayMs: 1 },
+    priorityFairnessInterval: 0,
+    leaseReaperIntervalMs: 1000,
+    delayedPromoteIntervalMs: 5,
+    cancelPollIntervalMs: 5,
+    controlPollIntervalMs: 10,
+    dequeueTimeoutSeconds: 0.02,
+    ...overrides
+  });
+  current = processor;
+  return { processor, backend, services };
+}
+
+async function waitFor(
+  predicate: () => boolean | Promise<boolean>,
+  timeoutMs = 2000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+function handler(
+  type: string,
+  handle: JobHandlerDefinition["handle"],
+  fields: Partial<JobHandlerDefinition> = {}
+): JobHandlerDefinition {
+  return { type, handle, ...fields };
+}
+
+test("runs a job to completion and records its result", async () => {
+  const { processor, backend, services } = createProcessor([
+    handler("sum", async (payload) => ({ total: Number(payload.a) + Number(payload.b) }))
+  ]);
+  await processor.start();
+  await backend.enqueue(createJob("job-1", "sum", { a: 2, b: 3 }, 3));
+
+  await waitFor(() => services.lastState("job-1") === "completed");
+  assert.deepEqual(services.states.get("job-1"), ["running", "completed"]);
+  assert.equal(services.claims.get("job-1")?.state, "completed");
+  assert.deepEqual(services.results.map((result) => [result.status, result.output]), [
+    ["completed", { total: 5 }]
+  ]);
+  assert.deepEqual(await backend.depth(), { ready: 0, delayed: 0, inFlight: 0, deadLetter: 0 });
+});
+
+test("retries a failing job and dead-letters it after its last attempt", async () => {
+  let runs = 0;
+  const { processor, backend, services } = createProcessor([
+    handler("flaky", async () => {
+      runs += 1;
+      throw new Error(`boom ${runs}`);
+    })
+  ]);
+  await processor.start();
+  await backend.enqueue(createJob("job-2", "flaky", {}, 2));
+
+  await waitFor(() => services.lastState("job-2") === "failed");
+  assert.equal(runs, 2);
+  assert.deepEqual(services.states.get("job-2"), ["running", "retrying", "running", "failed"]);
+  const [deadLettered] = backend.listDeadLetters();
+  assert.equal(deadLettered.id, "job-2");
+  assert.equal(deadLettered.lastError, "boom 2");
+  assert.deepEqual(
+    services.results.map((result) => result.status),
+    ["retrying", "failed"]
+  );
+});
+
+test("does not retry a job whose handler rejects the error as non-retryable", async () => {
+  const { processor, backend, services } = createProcessor([
+    handler(
+      "strict",
+      async () => {
+        throw new Error("bad input");
+      },
+      { isRetryable: () => false }
+    )
+  ]);
+  await processor.start();
+  await backend.enqueue(createJob("job-3", "strict", {}, 5));
+
+  await waitFor(() => services.lastState("job-3") === "failed");
+  assert.deepEqual(services.states.get("job-3"), ["running", "failed"]);
+  assert.equal(backend.listDeadLetters().length, 1);
+});
+
+test("dead-letters a job with no registered handler", async () => {
+  const { processor, backend, services } = createProcessor([]);
+  await processor.start();
+  await backend.enqueue(createJob("job-4", "missing", {}, 3));
+
+  await waitFor(() => backend.listDeadLetters().length === 1);
+  assert.equal(
+    backend.listDeadLetters()[0].lastError,
+    "No handler registered for job type: missing"
+  );
+  await waitFor(() => services.lastState("job-4") === "failed");
+  assert.equal(services.claims.has("job-4"), false);
+});
+
+test("skips a job that already completed elsewhere", async () => {
+  let runs = 0;
+  const { processor, backend, services } = createProcessor([
+    handler("once", async () => {
+      runs += 1;
+    })
+  ]);
+  services.claims.set("job-5", { state: "completed", owner: "worker-other" });
+  await processor.start();
+  await backend.enqueue(createJob("job-5", "once", {}, 3));
+
+  await waitFor(async () => {
+    const depth = await backend.depth();
+    return depth.ready + depth.inFlight + depth.delayed === 0;
+  });
+  assert.equal(runs, 0);
+  assert.equal(services.states.has("job-5"), false);
+});
+
+test("gives up the idempotency claim when a job is throttled", async () => {
+  let runs = 0;
+  const { processor, backend, services } = createProcessor([
+    handler(
+      "limited",
+      async () => {
+        runs += 1;
+      },
+      { maxConcurrent: 1 }
+    )
+  ]);
+  services.concurrencyAvailable = false;
+  await processor.start();
+  await backend.enqueue(createJob("job-6", "limited", {}, 3));
+
+  await waitFor(() => services.releasedClaims.includes("job-6"));
+  assert.equal(runs, 0);
+  assert.equal((await backend.depth()).delayed, 1);
+
+  services.concurrencyAvailable = true;
+  await waitFor(() => services.lastState("job-6") === "completed", 3000);
+  assert.equal(runs, 1);
+});
+
+test("cancels a queued job without running it", async () => {
+  let runs = 0;
+  const { processor, backend, services } = createProcessor([
+    handler("cancellable", async () => {
+      runs += 1;
+    })
+  ]);
+  services.cancelled.add("job-7");
+  await processor.start();
+  await backend.enqueue(createJob("job-7", "cancellable", {}, 3));
+
+  await waitFor(() => services.lastState("job-7") === "cancelled");
+  assert.equal(runs, 0);
+  assert.equal((await backend.depth()).inFlight, 0);
+});
+
+test("aborts a running job once it is cancelled", async () => {
+  const { processor, backend, services } = createProcessor([
+    handler(
+      "slow",
+      (_payload, { signal }) =>
+        new Promise((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        })
+    )
+  ]);
+  await processor.start();
+  await backend.enqueue(createJob("job-8", "slow", {}, 3));
+
+  await waitFor(() => services.lastState("job-8") === "running");
+  services.cancelled.add("job-8");
+  await waitFor(() => services.lastState("job-8") === "cancelled");
+  assert.equal(services.results.at(-1)?.status, "cancelled");
+  assert.equal(backend.listDeadLetters().length, 0);
+});
+
+test("takes no new jobs while the queue is paused", async () => {
+  let runs = 0;
+  const { processor, backend, services } = createProcessor([
+    handler("paused", async () => {
+      runs += 1;
+    })
+  ]);
+  services.control = {
+    paused: { pausedAt: new Date().toISOString(), reason: "maintenance" },
+    pausedTypes: [],
+    draining: false
+  };
+  await processor.start();
+  assert.equal(processor.getControlReason(), "paused");
+  await backend.enqueue(createJob("job-9", "paused", {}, 3));
+
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal(runs, 0);
+  services.control = { paused: null, pausedTypes: [], draining: false };
+  await waitFor(() => services.lastState("job-9") === "completed");
+  assert.equal(processor.getControlReason(), undefined);
+});
+
+test("stop waits for the loop and leaves the queue untouched", async () => {
+  const { processor, backend } = createProcessor([handler("idle", async () => undefined)]);
+  await processor.start();
+  await processor.stop();
+
+  await backend.enqueue(createJob("job-10", "idle", {}, 3));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal((await backend.depth()).ready, 1);
+  assert.equal(processor.inFlightCount, 0);
+});
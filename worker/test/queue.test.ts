@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ackAndDeadLetterJob,
+  ackAndRequeueJob,
+  ackAndScheduleJob,
+  createJob,
+  defineJobType,
+  dequeueJobReliable,
+  enqueueJob,
+  getQuarantineListName,
+  getQuarantineStats,
+  getPriorityOrder,
+  getQueueDepth,
+  parseJob,
+  QuarantinedJob,
+  quarantineRawJob,
+  reapExpiredLeases
+} from "@project/shared";
+import { createTestRedis } from "./support/redis";
+
+test("a reaped lease neither requeues, schedules nor dead-letters a second copy", async () => {
+  const redis = createTestRedis();
+  try {
+    await enqueueJob(redis, "jobs", createJob("job-1", "echo", {}, 3));
+    const stale = await dequeueJobReliable(redis, "jobs", "worker-a", {
+      timeoutSeconds: 0,
+      visibilityTimeoutMs: -1
+    });
+    assert.equal(await reapExpiredLeases(redis, "jobs"), 1);
+    const current = await dequeueJobReliable(redis, "jobs", "worker-b", {
+      timeoutSeconds: 0,
+      visibilityTimeoutMs: 60000
+    });
+    assert.equal(current?.job.id, "job-1");
+
+    await ackAndRequeueJob(redis, stale!, "jobs", stale!.job);
+    await ackAndScheduleJob(redis, stale!, "jobs", stale!.job, Date.now() + 60000);
+    await ackAndDeadLetterJob(redis, stale!, "jobs:dlq", stale!.job);
+    assert.deepEqual(await getQueueDepth(redis, "jobs", "jobs:dlq"), {
+      ready: 0,
+      delayed: 0,
+      inFlight: 1,
+      deadLetter: 0
+    });
+
+    await ackAndRequeueJob(redis, current!, "jobs", current!.job);
+    assert.deepEqual(await getQueueDepth(redis, "jobs", "jobs:dlq"), {
+      ready: 1,
+      delayed: 0,
+      inFlight: 0,
+      deadLetter: 0
+    });
+  } finally {
+    redis.disconnect();
+  }
+});
+
+defineJobType("queue-test-email", { to: { type: "string", minLength: 3 } });
+
+test("parseJob rejects malformed entries with the reason", () => {
+  const valid = { id: "job-1", type: "echo", payload: {}, attempts: 0 };
+  const cases: Array<[string, RegExp]> = [
+    ["{not json", /malformed JSON/],
+    ["[]", /expected a JSON object/],
+    ["null", /expected a JSON object/],
+    [JSON.stringify({ ...valid, id: "" }), /missing id/],
+    [JSON.stringify({ ...valid, type: 1 }), /missing type/],
+    [JSON.stringify({ ...valid, payload: [] }), /payload must be an object/],
+    [JSON.stringify({ ...valid, attempts: "0" }), /attempts must be a number/],
+    [JSON.stringify({ ...valid, priority: "urgent" }), /unknown priority/],
+    [
+      JSON.stringify({ ...valid, type: "queue-test-email", payload: { to: "x" } }),
+      /payload\.to must be at least 3 characters/
+    ]
+  ];
+  for (const [raw, reason] of cases) {
+    assert.throws(() => parseJob(raw), reason, raw);
+  }
+});
+
+test("parseJob fills defaults and drops normal priority", () => {
+  const job = parseJob(
+    JSON.stringify({ id: "job-1", type: "echo", payload: {}, attempts: 2, priority: "normal" })
+  );
+  assert.equal(job.maxAttempts, 5);
+  assert.equal(job.attempts, 2);
+  assert.equal(job.priority, undefined);
+  assert.ok(!Number.isNaN(Date.parse(job.createdAt)));
+});
+
+test("unparseable entries are quarantined instead of returned", async () => {
+  const redis = createTestRedis();
+  try {
+    const quarantined: QuarantinedJob[] = [
+      await quarantineRawJob(redis, "bad-jobs", "{not json", new Error("malformed JSON"))
+    ];
+
+    await redis.lpush("bad-jobs", JSON.stringify({ id: "job-2", type: "echo", payload: {} }));
+    const lease = await dequeueJobReliable(redis, "bad-jobs", "worker-a", {
+      timeoutSeconds: 0,
+      visibilityTimeoutMs: 60000,
+      onQuarantine: (entry) => quarantined.push(entry)
+    });
+    assert.equal(lease, null);
+
+    assert.deepEqual(quarantined.map((entry) => entry.workerId), [undefined, "worker-a"]);
+    assert.match(quarantined[1].error, /attempts must be a number/);
+    assert.deepEqual(await getQuarantineStats(redis, "bad-jobs"), { size: 2, total: 2 });
+    const stored = await redis.lrange(getQuarantineListName("bad-jobs"), 0, -1);
+    assert.deepEqual(
+      stored.map((entry) => (JSON.parse(entry) as QuarantinedJob).raw.slice(0, 9)),
+      ['{"id":"jo', "{not json"]
+    );
+    assert.deepEqual(await getQueueDepth(redis, "bad-jobs", "bad-jobs:dlq"), {
+      ready: 0,
+      delayed: 0,
+      inFlight: 0,
+      deadLetter: 0
+    });
+  } finally {
+    redis.disconnect();
+  }
+});
+
+test("every fairnessInterval-th dequeue checks the lists lowest first", () => {
+  const orders = [0, 1, 2, 3, 4, 5].map((count) => getPriorityOrder(count, 3).join(","));
+  assert.deepEqual(orders, [
+    "high,normal,low",
+    "high,normal,low",
+    "low,normal,high",
+    "high,normal,low",
+    "high,normal,low",
+    "low,normal,high"
+  ]);
+  assert.deepEqual(getPriorityOrder(0, 1), ["low", "normal", "high"]);
+  assert.deepEqual(getPriorityOrder(2, 0), ["high", "normal", "low"]);
+});
+
+test("low priority jobs keep moving while high priority work is queued", async () => {
+  const redis = createTestRedis();
+  try {
+    for (let i = 0; i < 6; i += 1) {
+      await enqueueJob(redis, "fair-jobs", createJob(`high-${i}`, "echo", {}, 3), {
+        priority: "high"
+      });
+    }
+    for (let i = 0; i < 2; i += 1) {
+      await enqueueJob(redis, "fair-jobs", createJob(`low-${i}`, "echo", {}, 3), {
+        priority: "low"
+      });
+    }
+
+    const served: string[] = [];
+    for (let count = 0; count < 6; count += 1) {
+      const lease = await dequeueJobReliable(redis, "fair-jobs", "worker-a", {
+        timeoutSeconds: 0,
+        visibilityTimeoutMs: 60000,
+        priorityOrder: getPriorityOrder(count, 3)
+      });
+      served.push(lease?.job.id ?? "none");
+    }
+    assert.deepEqual(served, ["high-0", "high-1", "low-0", "high-2", "high-3", "low-1"]);
+  } finally {
+    redis.disconnect();
+  }
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import {
+  createQueueBackend,
+  loadQueueBackendConfig,
+  RedisListQueueBackend,
+  RedisStreamQueueBackend
+} from "@project/shared";
+import { createTestRedis } from "./support/redis";
+
+const ENV_NAMES = [
+  "NODE_ENV",
+  "WORKER_QUEUE_NAME",
+  "WORKER_DEAD_LETTER_QUEUE",
+  "WORKER_QUEUE_BACKEND",
+  "WORKER_STREAM_GROUP"
+];
+const savedEnv = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+
+afterEach(() => {
+  for (const name of ENV_NAMES) {
+    if (savedEnv[name] === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = savedEnv[name];
+    }
+  }
+});
+
+function setQueueEnv(backend?: string): void {
+  process.env.WORKER_QUEUE_NAME = "jobs";
+  process.env.WORKER_DEAD_LETTER_QUEUE = "jobs:dlq";
+  if (backend) {
+    process.env.WORKER_QUEUE_BACKEND = backend;
+  } else {
+    delete process.env.WORKER_QUEUE_BACKEND;
+  }
+  delete process.env.WORKER_STREAM_GROUP;
+}
+
+test("defaults to the Redis list backend", () => {
+  setQueueEnv();
+  assert.deepEqual(loadQueueBackendConfig(), {
+    queueName: "jobs",
+    deadLetterQueue: "jobs:dlq",
+    kind: "redis-list",
+    streamGroup: "workers"
+  });
+});
+
+test("rejects the memory backend outside tests and development", () => {
+  setQueueEnv("memory");
+  process.env.NODE_ENV = "production";
+  assert.throws(() => loadQueueBackendConfig(), /requires NODE_ENV to be test or development/);
+  process.env.NODE_ENV = "test";
+  assert.equal(loadQueueBackendConfig().kind, "memory");
+});
+
+test("builds the configured backend from the connections it needs", () => {
+  const redis = createTestRedis();
+  try {
+    setQueueEnv("redis-stream");
+    assert.ok(createQueueBackend(loadQueueBackendConfig(), { redis }) instanceof RedisStreamQueueBackend);
+    setQueueEnv("redis-list");
+    assert.ok(createQueueBackend(loadQueueBackendConfig(), { redis }) instanceof RedisListQueueBackend);
+    assert.throws(() => createQueueBackend(loadQueueBackendConfig(), {}), /needs a Redis client/);
+    setQueueEnv("postgres");
+    assert.throws(() => createQueueBackend(loadQueueBackendConfig(), { redis }), /needs a Postgres pool/);
+  } finally {
+    redis.disconnect();
+  }
+});
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { PostgresPool, pruneHistory } from "@project/shared";
+
+const queryOptions = { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 };
+
+interface Statement {
+  name?: string;
+  text: string;
+  values?: unknown[];
+}
+
+/**
+ * Answers as a database whose `job_results` is partitioned into the months of
+ * `partitions` (or not partitioned, for null), each keyed to its newest
+ * `processed_at`. Deletes remove `deletedRows` in turn, then nothing. Every
+ * statement is recorded.
+ */
+function createRetentionPool(
+  partitions: Record<string, Date | null> | null,
+  deletedRows: number[] = []
+): { pool: PostgresPool; statements: Statement[] } {
+  const statements: Statement[] = [];
+  const pool = {
+    query: async (query: Statement) => {
+      statements.push(query);
+      if (query.name === "is-partitioned-table") {
+        return { rows: [{ partitioned: partitions !== null }], rowCount: 1 };
+      }
+      if (query.name === "list-partitions") {
+        const names = Object.keys(partitions ?? {});
+        return { rows: names.map((name) => ({ name })), rowCount: names.length };
+      }
+      const newest = /MAX\(processed_at\) AS newest FROM (\w+)/.exec(query.text);
+      if (newest) {
+        return { rows: [{ newest: partitions?.[newest[1]] ?? null }], rowCount: 1 };
+      }
+      if (query.name?.startsWith("prune-delete-")) {
+        return { rows: [], rowCount: deletedRows.shift() ?? 0 };
+      }
+      return { rows: [{ count: 0 }], rowCount: 1 };
+    }
+  };
+  return { pool: pool as unknown as PostgresPool, statements };
+}
+
+test("a dry run leaves partitions it would drop out of its row counts", async () => {
+  const { pool, statements } = createRetentionPool({
+    job_results_p202501: new Date("2025-01-31T00:00:00Z"),
+    job_results_p202610: new Date("2026-10-18T00:00:00Z")
+  });
+
+  const report = await pruneHistory(
+    pool,
+    { defaultDays: 30, byJobType: {} },
+    { batchSize: 100, queryOptions, dryRun: true, now: new Date("2026-10-19T00:00:00Z") }
+  );
+
+  assert.deepEqual(report.partitionsDropped, ["job_results_p202501"]);
+  const resultsCount = statements.find((statement) =>
+    statement.name?.startsWith("prune-count-job_results-")
+  );
+  assert.match(resultsCount?.text ?? "", /tableoid NOT IN/);
+  assert.deepEqual(resultsCount?.values?.at(-1), ["job_results_p202501"]);
+  assert.equal(statements.some((statement) => statement.text.includes("DROP TABLE")), false);
+});
+
+test("statements naming a partition run unnamed", async () => {
+  const { pool, statements } = createRetentionPool({
+    job_results_p202501: new Date("2025-01-31T00:00:00Z")
+  });
+
+  await pruneHistory(
+    pool,
+    { defaultDays: 30, byJobType: {} },
+    { batchSize: 100, queryOptions, batchDelayMs: 0, now: new Date("2026-10-19T00:00:00Z") }
+  );
+
+  const perPartition = statements.filter((statement) =>
+    /job_results_p\d{6}/.test(statement.text)
+  );
+  assert.ok(perPartition.some((statement) => statement.text.includes("DROP TABLE")));
+  assert.ok(perPartition.some((statement) => statement.text.includes("CREATE TABLE")));
+  assert.deepEqual(perPartition.filter((statement) => statement.name !== undefined), []);
+});
+
+test("dead outbox rows that were never sent are pruned by dead_at", async () => {
+  const { pool, statements } = createRetentionPool(null);
+
+  const report = await pruneHistory(
+    pool,
+    { defaultDays: 30, byJobType: {} },
+    { batchSize: 100, queryOptions, dryRun: true, now: new Date("2026-10-19T00:00:00Z") }
+  );
+
+  assert.equal(report.tables.filter((table) => table.table === "job_outbox").length, 2);
+  const deadCount = statements.find(
+    (statement) => statement.name === "prune-count-job_outbox-dead_at-all"
+  );
+  assert.match(deadCount?.text ?? "", /dead_at < \$1 AND sent_at IS NULL/);
+});
+
+test("overridden job types get their own retention and are left out of the default", async () => {
+  const { pool, statements } = createRetentionPool(null);
+  const now = new Date("2026-10-19T00:00:00Z");
+
+  const report = await pruneHistory(
+    pool,
+    { defaultDays: 30, byJobType: { "send-email": 7 } },
+    { batchSize: 100, queryOptions, dryRun: true, now }
+  );
+
+  assert.deepEqual(
+    report.tables
+      .filter((table) => table.table === "job_results")
+      .map(({ jobType, olderThan }) => [jobType, olderThan]),
+    [
+      ["send-email", "2026-10-12T00:00:00.000Z"],
+      [null, "2026-09-19T00:00:00.000Z"]
+    ]
+  );
+  const counts = statements.filter((statement) =>
+    statement.name?.startsWith("prune-count-job_statuses-")
+  );
+  assert.match(counts[0].text, /updated_at < \$1 AND state IN \(.*'completed'.*\)/);
+  assert.match(counts[0].text, /AND job_type = \$2$/);
+  assert.deepEqual(counts[0].values, [new Date("2026-10-12T00:00:00Z"), "send-email"]);
+  assert.match(counts[1].text, /NOT \(job_type = ANY\(\$2::text\[\]\)\)/);
+  assert.deepEqual(counts[1].values, [new Date("2026-09-19T00:00:00Z"), ["send-email"]]);
+  assert.deepEqual(
+    report.tables.filter((table) => table.table === "job_outbox").map((table) => table.jobType),
+    [null, null]
+  );
+});
+
+test("deletes run in batches until one comes back short", async () => {
+  const { pool, statements } = createRetentionPool(null, [100, 100, 40]);
+
+  const report = await pruneHistory(
+    pool,
+    { defaultDays: 30, byJobType: {} },
+    { batchSize: 100, queryOptions, batchDelayMs: 0, now: new Date("2026-10-19T00:00:00Z") }
+  );
+
+  assert.equal(report.tables[0].table, "job_results");
+  assert.equal(report.tables[0].rows, 240);
+  const deletes = statements.filter((statement) => statement.name?.startsWith("prune-delete-"));
+  assert.deepEqual(deletes[0].values?.at(-1), 100);
+  assert.equal(deletes.filter((statement) => statement.name === deletes[0].name).length, 3);
+});
+
+test("only ended months whose newest row is past the longest retention are dropped", async () => {
+  const { pool } = createRetentionPool({
+    // Expired under every retention.
+    job_results_p202501: new Date("2025-02-20T00:00:00Z"),
+    // A job created in June but processed recently keeps its month.
+    job_results_p202606: new Date("2026-10-01T00:00:00Z"),
+    // An empty month that ended before the longest cutoff.
+    job_results_p202607: null,
+    // Ended after the cutoff of the 60 days `report` keeps rows for.
+    job_results_p202608: null,
+    job_results_p202609: new Date("2026-09-10T00:00:00Z"),
+    job_results_default: null
+  });
+
+  const report = await pruneHistory(
+    pool,
+    { defaultDays: 30, byJobType: { report: 60 } },
+    { batchSize: 100, queryOptions, batchDelayMs: 0, now: new Date("2026-10-19T00:00:00Z") }
+  );
+
+  assert.deepEqual(report.partitionsDropped, ["job_results_p202501", "job_results_p202607"]);
+});
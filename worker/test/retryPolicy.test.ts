@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  createJob,
+  getMaxAttempts,
+  getRetryDelay,
+  isNonRetryableError,
+  NonRetryableError,
+  RetryPolicy
+} from "@project/shared";
+
+const exponential: RetryPolicy = { strategy: "exponential", baseDelayMs: 1000, maxDelayMs: 30_000 };
+const jitter: RetryPolicy = {
+  strategy: "decorrelated-jitter",
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000
+};
+
+test("fixed backoff waits the base delay every time", () => {
+  const fixed: RetryPolicy = { strategy: "fixed", baseDelayMs: 500, maxDelayMs: 30_000 };
+  assert.deepEqual([1, 2, 5].map((attempts) => getRetryDelay(fixed, attempts)), [500, 500, 500]);
+});
+
+test("exponential backoff doubles per attempt up to the maximum", () => {
+  assert.deepEqual(
+    [1, 2, 3, 4, 5, 6].map((attempts) => getRetryDelay(exponential, attempts)),
+    [2000, 4000, 8000, 16_000, 30_000, 30_000]
+  );
+});
+
+test("decorrelated jitter stays between the base and three times the previous delay", () => {
+  assert.equal(getRetryDelay(jitter, 1, undefined, () => 0), 1000);
+  assert.equal(getRetryDelay(jitter, 1, undefined, () => 1), 3000);
+  assert.equal(getRetryDelay(jitter, 2, 4000, () => 0.5), 6500);
+  assert.equal(getRetryDelay(jitter, 3, 20_000, () => 1), 30_000);
+
+  let previous: number | undefined;
+  for (let attempts = 1; attempts <= 50; attempts += 1) {
+    const delay = getRetryDelay(jitter, attempts, previous);
+    assert.ok(delay >= jitter.baseDelayMs && delay <= jitter.maxDelayMs);
+    assert.ok(delay <= Math.max((previous ?? jitter.baseDelayMs) * 3, jitter.baseDelayMs));
+    previous = delay;
+  }
+});
+
+test("a policy can lower a job's attempts but not raise them", () => {
+  const job = createJob("job-1", "echo", {}, 5);
+  assert.equal(getMaxAttempts(exponential, job), 5);
+  assert.equal(getMaxAttempts({ ...exponential, maxAttempts: 3 }, job), 3);
+  assert.equal(getMaxAttempts({ ...exponential, maxAttempts: 10 }, job), 5);
+});
+
+test("only NonRetryableError is non-retryable", () => {
+  assert.equal(isNonRetryableError(new NonRetryableError("bad input")), true);
+  assert.equal(isNonRetryableError(new Error("timeout")), false);
+});
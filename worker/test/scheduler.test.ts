@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  CatchUpPolicy,
+  CronScheduler,
+  Logger,
+  MemoryQueueBackend,
+  SchedulerStore
+} from "@project/shared";
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  fatal: () => undefined
+};
+
+/** Lease and last runs kept in maps, as a stand-in for the Postgres store. */
+class MemorySchedulerStore implements SchedulerStore {
+  readonly leases = new Map<string, string>();
+  readonly lastRuns = new Map<string, number>();
+  readonly calls: string[] = [];
+  // Holds `getLastRun` until resolved, to keep a tick in progress.
+  gate: Promise<void> = Promise.resolve();
+
+  async acquireLeaderLease(key: string, owner: string): Promise<boolean> {
+    const holder = this.leases.get(key);
+    if (holder && holder !== owner) {
+      return false;
+    }
+    this.leases.set(key, owner);
+    return true;
+  }
+
+  async releaseLeaderLease(key: string, owner: string): Promise<boolean> {
+    this.calls.push("releaseLeaderLease");
+    if (this.leases.get(key) !== owner) {
+      return false;
+    }
+    return this.leases.delete(key);
+  }
+
+  async getLastRun(key: string, name: string): Promise<number | null> {
+    await this.gate;
+    return this.lastRuns.get(`${key}/${name}`) ?? null;
+  }
+
+  async setLastRun(key: string, name: string, at: number): Promise<void> {
+    this.calls.push("setLastRun");
+    this.lastRuns.set(`${key}/${name}`, at);
+  }
+}
+
+test("a scheduler with a store and a backend fires without Redis", async () => {
+  const store = new MemorySchedulerStore();
+  const backend = new MemoryQueueBackend();
+  const scheduler = new CronScheduler({
+    store,
+    backend,
+    queueName: "jobs",
+    ownerId: "worker-a",
+    logger: silentLogger
+  });
+  scheduler.register({ name: "every-minute", cron: "* * * * *", type: "echo" });
+
+  await scheduler.tick(new Date("2026-03-01T10:00:30Z"));
+  assert.equal(scheduler.isLeader(), true);
+  assert.deepEqual(await backend.depth(), { ready: 0, delayed: 0, inFlight: 0, deadLetter: 0 });
+
+  await scheduler.tick(new Date("2026-03-01T10:01:05Z"));
+  const lease = await backend.dequeue("worker-a", { timeoutSeconds: 0, visibilityTimeoutMs: 1000 });
+  assert.equal(lease?.job.id, `cron:every-minute:${Date.parse("2026-03-01T10:01:00Z")}`);
+
+  await scheduler.stop();
+  assert.equal(store.leases.size, 0);
+});
+
+test("a scheduler without Redis needs both a store and a backend", () => {
+  assert.throws(
+    () =>
+      new CronScheduler({
+        store: new MemorySchedulerStore(),
+        queueName: "jobs",
+        ownerId: "worker-a",
+        logger: silentLogger
+      }),
+    /needs a Redis client/
+  );
+});
+
+test("stop waits for the tick in progress before giving up the lease", async () => {
+  const store = new MemorySchedulerStore();
+  let open = (): void => undefined;
+  store.gate = new Promise((resolve) => {
+    open = resolve;
+  });
+  const scheduler = new CronScheduler({
+    store,
+    backend: new MemoryQueueBackend(),
+    queueName: "jobs",
+    ownerId: "worker-a",
+    logger: silentLogger
+  });
+  scheduler.register({ name: "every-minute", cron: "* * * * *", type: "echo" });
+
+  const ticking = scheduler.tick(new Date("2026-03-01T10:00:30Z"));
+  await new Promise((resolve) => setImmediate(resolve));
+  const stopping = scheduler.stop();
+  open();
+  await Promise.all([ticking, stopping]);
+
+  assert.deepEqual(store.calls, ["setLastRun", "releaseLeaderLease"]);
+  assert.equal(store.leases.size, 0);
+});
+
+async function tickAfterOutage(catchUp: CatchUpPolicy): Promise<string[]> {
+  const store = new MemorySchedulerStore();
+  const backend = new MemoryQueueBackend();
+  const scheduler = new CronScheduler({
+    store,
+    backend,
+    queueName: "jobs",
+    ownerId: "worker-a",
+    logger: silentLogger
+  });
+  scheduler.register({ name: "every-minute", cron: "* * * * *", type: "echo", catchUp });
+  store.lastRuns.set("jobs:scheduler:last-run/every-minute", Date.parse("2026-03-01T10:00:00Z"));
+
+  // 10:01 through 10:05 were missed; the last is past the 10s misfire grace.
+  await scheduler.tick(new Date("2026-03-01T10:05:30Z"));
+  assert.equal(
+    store.lastRuns.get("jobs:scheduler:last-run/every-minute"),
+    Date.parse("2026-03-01T10:05:00Z")
+  );
+  const fired: string[] = [];
+  const dequeueOptions = { timeoutSeconds: 0, visibilityTimeoutMs: 1000 };
+  for (;;) {
+    const lease = await backend.dequeue("worker-a", dequeueOptions);
+    if (!lease) {
+      return fired;
+    }
+    fired.push(new Date(Number(lease.job.id.split(":")[2])).toISOString());
+  }
+}
+
+test("catch-up policies decide which missed occurrences fire", async () => {
+  assert.deepEqual(await tickAfterOutage("skip"), []);
+  assert.deepEqual(await tickAfterOutage("latest"), ["2026-03-01T10:05:00.000Z"]);
+  assert.deepEqual(await tickAfterOutage("all"), [
+    "2026-03-01T10:01:00.000Z",
+    "2026-03-01T10:02:00.000Z",
+    "2026-03-01T10:03:00.000Z",
+    "2026-03-01T10:04:00.000Z",
+    "2026-03-01T10:05:00.000Z"
+  ]);
+});
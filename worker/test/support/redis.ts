@@ -0,0 +1,124 @@
+import RedisMock from "ioredis-mock";
+import { RedisClient } from "@project/shared";
+
+// ioredis-mock runs Lua through fengari, which has no cjson library. This
+// pure-Lua stand-in covers the encode/decode calls the repo's scripts make.
+const CJSON_LUA = `
+local cjson = {}
+do
+  local escapes = { ['"'] = '\\\\"', ['\\\\'] = '\\\\\\\\', ['\\b'] = '\\\\b', ['\\f'] = '\\\\f', ['\\n'] = '\\\\n', ['\\r'] = '\\\\r', ['\\t'] = '\\\\t' }
+  local function enc(v)
+    local t = type(v)
+    if t == "nil" then return "null" end
+    if t == "boolean" then return tostring(v) end
+    if t == "number" then
+      if v == math.floor(v) then return string.format("%d", v) end
+      return tostring(v)
+    end
+    if t == "string" then return '"' .. v:gsub('[%c"\\\\]', function(c) return escapes[c] or string.format("\\\\u%04x", c:byte()) end) .. '"' end
+    if t == "table" then
+      if #v > 0 then
+        local out = {}
+        for i = 1, #v do out[i] = enc(v[i]) end
+        return "[" .. table.concat(out, ",") .. "]"
+      end
+      local out = {}
+      for k, val in pairs(v) do out[#out + 1] = enc(tostring(k)) .. ":" .. enc(val) end
+      return "{" .. table.concat(out, ",") .. "}"
+    end
+    error("cannot encode " .. t)
+  end
+  local function skip(s, i)
+    while true do
+      local c = s:sub(i, i)
+      if c == " " or c == "\\n" or c == "\\t" or c == "\\r" then i = i + 1 else return i end
+    end
+  end
+  local dec
+  local function decstr(s, i)
+    local out = {}
+    i = i + 1
+    while true do
+      local c = s:sub(i, i)
+      if c == "" then error("unterminated string") end
+      if c == '"' then return table.concat(out), i + 1 end
+      if c == "\\\\" then
+        local n = s:sub(i + 1, i + 1)
+        local map = { b = "\\b", f = "\\f", n = "\\n", r = "\\r", t = "\\t" }
+        if n == "u" then
+          out[#out + 1] = string.char(tonumber(s:sub(i + 2, i + 5), 16) % 256)
+          i = i + 6
+        else
+          out[#out + 1] = map[n] or n
+          i = i + 2
+        end
+      else
+        out[#out + 1] = c
+        i = i + 1
+      end
+    end
+  end
+  dec = function(s, i)
+    i = skip(s, i)
+    local c = s:sub(i, i)
+    if c == "{" then
+      local obj = {}
+      i = skip(s, i + 1)
+      if s:sub(i, i) == "}" then return obj, i + 1 end
+      while true do
+        local k
+        k, i = decstr(s, skip(s, i))
+        i = skip(s, i)
+        if s:sub(i, i) ~= ":" then error("expected colon") end
+        local v
+        v, i = dec(s, i + 1)
+        obj[k] = v
+        i = skip(s, i)
+        local d = s:sub(i, i)
+        if d == "}" then return obj, i + 1 end
+        if d ~= "," then error("expected comma") end
+        i = i + 1
+      end
+    elseif c == "[" then
+      local arr = {}
+      i = skip(s, i + 1)
+      if s:sub(i, i) == "]" then return arr, i + 1 end
+      while true do
+        local v
+        v, i = dec(s, i)
+        arr[#arr + 1] = v
+        i = skip(s, i)
+        local d = s:sub(i, i)
+        if d == "]" then return arr, i + 1 end
+        if d ~= "," then error("expected comma") end
+        i = i + 1
+      end
+    elseif c == '"' then
+      return decstr(s, i)
+    elseif s:sub(i, i + 3) == "true" then return true, i + 4
+    elseif s:sub(i, i + 4) == "false" then return false, i + 5
+    elseif s:sub(i, i + 3) == "null" then return nil, i + 4
+    else
+      local num = s:match("^-?%d+%.?%d*[eE]?[-+]?%d*", i)
+      if not num or num == "" then error("unexpected " .. c) end
+      return tonumber(num), i + #num
+    end
+  end
+  cjson.encode = enc
+  cjson.decode = function(s)
+    local v = dec(s, 1)
+    return v
+  end
+end
+`;
+
+/**
+ * Returns an in-memory Redis client whose `eval` understands `cjson`.
+ */
+export function createTestRedis(): RedisClient {
+  const redis = new RedisMock();
+  const evalScript = redis.eval.bind(redis) as (...args: unknown[]) => Promise<unknown>;
+  redis.eval = ((script: string, ...args: unknown[]) =>
+    evalScript(CJSON_LUA + script, ...args)) as RedisClient["eval"];
+  return redis;
+}